@@ -0,0 +1,77 @@
+// App shell service worker. Registered as sw.js?v=<app version>, so every release gets a
+// fresh cache. Supabase requests are never cached here; the app keeps its own read models
+// in IndexedDB.
+const version = new URL(self.location.href).searchParams.get('v') || 'dev';
+const SHELL_CACHE = `ttt-shell-${version}`;
+const SHELL_FILES = ['./manifest.webmanifest'];
+const ASSET_PATTERN = /(?:src|href)="([^"]+\.(?:js|css|svg|png|woff2?))"/g;
+
+// Precaches index.html plus every script, stylesheet and icon it references.
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch('./index.html', { cache: 'no-cache' });
+  const html = await response.clone().text();
+  const assets = Array.from(html.matchAll(ASSET_PATTERN), (match) => match[1]);
+  await cache.put('./index.html', response);
+  await cache.addAll([...new Set([...SHELL_FILES, ...assets])]);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('ttt-shell-') && key !== SHELL_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirstPage = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put('./index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match('./index.html');
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+// Build assets are content-hashed, so a cached copy never goes stale.
+const cacheFirstAsset = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+  event.respondWith(
+    request.mode === 'navigate' ? networkFirstPage(request) : cacheFirstAsset(request)
+  );
+});
@@ -9,6 +9,26 @@ const readEnvNumber = (key: keyof ImportMetaEnv, fallback: number) => {
   return Number.isFinite(value) ? value : fallback;
 };
 
+const readEnvString = (key: keyof ImportMetaEnv, fallback: string) => {
+  const raw = import.meta.env[key];
+  return raw && raw.trim().length > 0 ? raw.trim() : fallback;
+};
+
+const readEnvBoolean = (key: keyof ImportMetaEnv, fallback: boolean) => {
+  const raw = import.meta.env[key];
+  if (!raw || raw.trim().length === 0) {
+    return fallback;
+  }
+  const value = raw.trim().toLowerCase();
+  if (value === 'true' || value === '1') {
+    return true;
+  }
+  if (value === 'false' || value === '0') {
+    return false;
+  }
+  return fallback;
+};
+
 const formatWeights: Record<MatchFormat, number> = {
   bo1: readEnvNumber('VITE_ELO_WEIGHT_BO1', 0.5),
   bo3: readEnvNumber('VITE_ELO_WEIGHT_BO3', 1),
@@ -29,13 +49,37 @@ const scoreWeights = {
   points: readEnvNumber('VITE_ELO_SCORE_WEIGHT_POINTS', 1)
 };
 
+const provisional = {
+  matches: readEnvNumber('VITE_ELO_PROVISIONAL_MATCHES', 10),
+  kMultiplier: readEnvNumber('VITE_ELO_PROVISIONAL_K_MULTIPLIER', 2),
+  hideFromRanking: readEnvBoolean('VITE_ELO_PROVISIONAL_HIDE', false)
+};
+
+const inactivityMode = readEnvString('VITE_ELO_INACTIVITY_MODE', 'exclude');
+
+const inactivity = {
+  mode: (inactivityMode === 'off' || inactivityMode === 'drift' ? inactivityMode : 'exclude') as
+    | 'off'
+    | 'drift'
+    | 'exclude',
+  idleWeeks: readEnvNumber('VITE_ELO_INACTIVITY_WEEKS', 4),
+  driftPerWeek: readEnvNumber('VITE_ELO_INACTIVITY_DRIFT', 0.05)
+};
+
 export const eloConfig = {
   baseline: readEnvNumber('VITE_ELO_BASELINE', 1000),
   floor: readEnvNumber('VITE_ELO_FLOOR', 400),
   scale: readEnvNumber('VITE_ELO_SCALE', 1000),
   kFactor: readEnvNumber('VITE_ELO_K', 40),
   doublesMultiplier: readEnvNumber('VITE_ELO_DOUBLES_MULTIPLIER', 1),
+  tournamentMultiplier: readEnvNumber('VITE_ELO_TOURNAMENT_MULTIPLIER', 1.2),
+  combinedLadder: readEnvBoolean('VITE_ELO_COMBINED_LADDER', false),
+  teamRatingBlend: readEnvNumber('VITE_ELO_TEAM_BLEND', 0),
   formatWeights,
   doublesFormatWeights,
-  scoreWeights
+  scoreWeights,
+  provisional,
+  inactivity
 };
+
+export type EloConfig = typeof eloConfig;
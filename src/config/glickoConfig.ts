@@ -0,0 +1,16 @@
+const readEnvNumber = (key: keyof ImportMetaEnv, fallback: number) => {
+  const raw = import.meta.env[key];
+  if (!raw || raw.trim().length === 0) {
+    return fallback;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+export const glickoConfig = {
+  baseline: readEnvNumber('VITE_GLICKO_BASELINE', 1500),
+  deviation: readEnvNumber('VITE_GLICKO_DEVIATION', 350),
+  volatility: readEnvNumber('VITE_GLICKO_VOLATILITY', 0.06),
+  tau: readEnvNumber('VITE_GLICKO_TAU', 0.5),
+  ratingPeriodDays: readEnvNumber('VITE_GLICKO_PERIOD_DAYS', 7)
+};
@@ -0,0 +1,17 @@
+const readEnvNumber = (key: keyof ImportMetaEnv, fallback: number) => {
+  const raw = import.meta.env[key];
+  if (!raw || raw.trim().length === 0) {
+    return fallback;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+export const ladderConfig = {
+  // How many positions above themselves a player may challenge.
+  maxRankGap: readEnvNumber('VITE_LADDER_MAX_RANK_GAP', 3),
+  // Hours the challenged player has to accept before the challenge expires.
+  acceptWindowHours: readEnvNumber('VITE_LADDER_ACCEPT_HOURS', 72)
+};
+
+export type LadderConfig = typeof ladderConfig;
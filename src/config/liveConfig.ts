@@ -0,0 +1,15 @@
+const readEnvNumber = (key: keyof ImportMetaEnv, fallback: number) => {
+  const raw = import.meta.env[key];
+  if (!raw || raw.trim().length === 0) {
+    return fallback;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+export const liveConfig = {
+  // How often to check for new results when realtime is unavailable.
+  pollIntervalSeconds: readEnvNumber('VITE_LIVE_POLL_SECONDS', 30)
+};
+
+export type LiveConfig = typeof liveConfig;
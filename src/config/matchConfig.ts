@@ -0,0 +1,15 @@
+const readEnvNumber = (key: keyof ImportMetaEnv, fallback: number) => {
+  const raw = import.meta.env[key];
+  if (!raw || raw.trim().length === 0) {
+    return fallback;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+export const matchConfig = {
+  // Hours the opposing side has to confirm or dispute a result before it counts anyway.
+  autoConfirmHours: readEnvNumber('VITE_MATCH_CONFIRM_HOURS', 48)
+};
+
+export type MatchConfig = typeof matchConfig;
@@ -0,0 +1,100 @@
+import type { EloConfig } from '../../config/eloConfig';
+import type { GameRow, MatchRow } from '../data/types';
+
+// Pinned config so golden values do not move when someone tweaks their local .env.
+export const testEloConfig: EloConfig = {
+  baseline: 1000,
+  floor: 400,
+  scale: 1000,
+  kFactor: 40,
+  doublesMultiplier: 1,
+  tournamentMultiplier: 1.2,
+  combinedLadder: false,
+  teamRatingBlend: 0,
+  formatWeights: { bo1: 0.5, bo3: 1, bo5: 1.5, bo7: 2 },
+  doublesFormatWeights: { bo1: 0.75, bo3: 1, bo5: 1.5, bo7: 2 },
+  scoreWeights: { outcome: 1, games: 1, points: 1 },
+  provisional: { matches: 0, kMultiplier: 1, hideFromRanking: false },
+  inactivity: { mode: 'off', idleWeeks: 4, driftPerWeek: 0.05 }
+};
+
+export const buildMatch = (
+  id: string,
+  teamA: string[],
+  teamB: string[],
+  overrides: Partial<MatchRow> = {}
+): MatchRow => ({
+  id,
+  match_type: teamA.length > 1 ? 'doubles' : 'singles',
+  match_format: 'bo3',
+  match_date: '2025-01-01',
+  competition_type: 'ranked',
+  competition_id: null,
+  notes: null,
+  side_a_games_won: 0,
+  side_b_games_won: 0,
+  winner_side: 'A',
+  loser_side: 'B',
+  status: 'confirmed',
+  confirmed_at: null,
+  confirmed_by: null,
+  dispute_reason: null,
+  is_active: true,
+  created_at: '2025-01-01T12:00:00Z',
+  created_by: 'fixture',
+  updated_at: null,
+  updated_by: null,
+  team_a: teamA,
+  team_b: teamB,
+  ...overrides
+});
+
+export const buildGames = (matchId: string, scores: Array<[number, number]>): GameRow[] =>
+  scores.map(([sideA, sideB], index) => ({
+    id: `${matchId}-g${index + 1}`,
+    match_id: matchId,
+    game_number: index + 1,
+    side_a_score: sideA,
+    side_b_score: sideB,
+    is_active: true,
+    created_at: '2025-01-01T12:00:00Z',
+    created_by: 'fixture',
+    updated_at: null,
+    updated_by: null
+  }));
+
+// A small singles ladder: alice beats everyone, bob beats carol, carol takes one off bob.
+export const singlesHistory: MatchRow[] = [
+  buildMatch('m1', ['alice'], ['bob'], { match_date: '2025-01-06' }),
+  buildMatch('m2', ['bob'], ['carol'], { match_date: '2025-01-07' }),
+  buildMatch('m3', ['alice'], ['carol'], { match_date: '2025-01-08', match_format: 'bo5' }),
+  buildMatch('m4', ['carol'], ['bob'], { match_date: '2025-01-09' }),
+  buildMatch('m5', ['alice'], ['bob'], { match_date: '2025-01-10', competition_type: 'tournament' })
+];
+
+export const singlesGames: GameRow[] = [
+  ...buildGames('m1', [
+    [11, 7],
+    [11, 9]
+  ]),
+  ...buildGames('m2', [
+    [11, 5],
+    [9, 11],
+    [11, 8]
+  ]),
+  ...buildGames('m3', [
+    [11, 4],
+    [11, 6],
+    [11, 3]
+  ]),
+  ...buildGames('m4', [
+    [12, 10],
+    [11, 13],
+    [11, 9]
+  ]),
+  ...buildGames('m5', [
+    [8, 11],
+    [11, 6],
+    [11, 7]
+  ])
+];
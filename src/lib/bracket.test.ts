@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { buildBracket, buildSeedOrder, type BracketEntry } from './bracket';
+import { buildMatch } from './__fixtures__/matchHistory';
+
+const buildEntries = (count: number): BracketEntry[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `e${index + 1}`,
+    memberIds: [`p${index + 1}`],
+    seed: index + 1,
+    rating: 1000 - index
+  }));
+
+let matchCounter = 0;
+
+// Records a tournament match won by the first player id.
+const win = (winner: string, loser: string, date = '2025-02-01') => {
+  matchCounter += 1;
+  return buildMatch(`t${matchCounter}`, [winner], [loser], {
+    match_date: date,
+    competition_type: 'tournament',
+    winner_side: 'A',
+    loser_side: 'B'
+  });
+};
+
+const findMatch = (bracket: ReturnType<typeof buildBracket>, id: string) =>
+  bracket.rounds.flatMap((round) => round.matches).find((match) => match.id === id);
+
+describe('buildSeedOrder', () => {
+  it('keeps top seeds apart until the latest round', () => {
+    expect(buildSeedOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(buildSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+});
+
+describe('buildBracket', () => {
+  it('gives byes to the top seeds without recording a win', () => {
+    const bracket = buildBracket('single_elim', buildEntries(6), []);
+
+    expect(bracket.size).toBe(8);
+    expect(bracket.rounds.map((round) => round.label)).toEqual(['Quarterfinals', 'Semifinals', 'Final']);
+
+    const opener = findMatch(bracket, 'W1-1');
+    expect(opener).toMatchObject({ status: 'bye', winnerId: 'e1', matchId: null });
+    expect(findMatch(bracket, 'W1-2')?.status).toBe('ready');
+    expect(findMatch(bracket, 'W2-1')).toMatchObject({ status: 'pending', entryA: { id: 'e1' } });
+  });
+
+  it('advances winners as tournament matches are recorded', () => {
+    const matches = [win('p4', 'p5'), win('p3', 'p6'), win('p1', 'p4'), win('p3', 'p2'), win('p3', 'p1')];
+    const bracket = buildBracket('single_elim', buildEntries(6), matches);
+
+    expect(findMatch(bracket, 'W2-1')).toMatchObject({ status: 'complete', winnerId: 'e1' });
+    expect(findMatch(bracket, 'W2-2')).toMatchObject({ status: 'complete', winnerId: 'e3' });
+    expect(bracket.championId).toBe('e3');
+  });
+
+  it('does not advance on unconfirmed results', () => {
+    const disputed = { ...win('p4', 'p5'), status: 'disputed' as const };
+    const bracket = buildBracket('single_elim', buildEntries(6), [disputed]);
+
+    expect(findMatch(bracket, 'W1-2')).toMatchObject({ status: 'ready', matchId: null });
+  });
+
+  it('drops losers into the losers bracket and skips the reset when the unbeaten entry wins', () => {
+    const matches = [
+      win('p1', 'p4'),
+      win('p2', 'p3'),
+      win('p4', 'p3'),
+      win('p1', 'p2'),
+      win('p2', 'p4'),
+      win('p1', 'p2', '2025-02-02')
+    ];
+    const bracket = buildBracket('double_elim', buildEntries(4), matches);
+
+    expect(bracket.rounds.map((round) => round.label)).toEqual([
+      'Winners Round 1',
+      'Winners Final',
+      'Losers Round 1',
+      'Losers Final',
+      'Grand Final',
+      'Grand Final Reset'
+    ]);
+    expect(findMatch(bracket, 'L1-1')).toMatchObject({ entryA: { id: 'e4' }, entryB: { id: 'e3' } });
+    expect(findMatch(bracket, 'GF-2')?.status).toBe('skipped');
+    expect(bracket.championId).toBe('e1');
+  });
+
+  it('plays a reset when the losers-side champion wins the grand final', () => {
+    const matches = [
+      win('p1', 'p4'),
+      win('p2', 'p3'),
+      win('p4', 'p3'),
+      win('p1', 'p2'),
+      win('p2', 'p4'),
+      win('p2', 'p1', '2025-02-02')
+    ];
+    const pending = buildBracket('double_elim', buildEntries(4), matches);
+    expect(findMatch(pending, 'GF-2')?.status).toBe('ready');
+    expect(pending.championId).toBeNull();
+
+    const decided = buildBracket('double_elim', buildEntries(4), [
+      ...matches,
+      win('p2', 'p1', '2025-02-03')
+    ]);
+    expect(findMatch(decided, 'GF-2')).toMatchObject({ status: 'complete', winnerId: 'e2' });
+    expect(decided.championId).toBe('e2');
+  });
+});
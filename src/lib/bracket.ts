@@ -0,0 +1,346 @@
+import type { MatchRow } from './data/types';
+import {
+  claimRecordedMatch,
+  indexMatchesByPairing,
+  resolveEntryResult,
+  type SeededEntry
+} from './tournamentEntries';
+
+export type BracketFormat = 'single_elim' | 'double_elim';
+export type BracketSide = 'winners' | 'losers' | 'finals';
+export type BracketMatchStatus = 'pending' | 'ready' | 'complete' | 'bye' | 'skipped';
+
+export type BracketEntry = SeededEntry;
+
+export type BracketMatch = {
+  id: string;
+  side: BracketSide;
+  round: number;
+  position: number;
+  entryA: BracketEntry | null;
+  entryB: BracketEntry | null;
+  status: BracketMatchStatus;
+  winnerId: string | null;
+  // The recorded tournament match that decided this slot, if any.
+  matchId: string | null;
+};
+
+export type BracketRound = {
+  side: BracketSide;
+  round: number;
+  label: string;
+  matches: BracketMatch[];
+};
+
+export type Bracket = {
+  format: BracketFormat;
+  size: number;
+  rounds: BracketRound[];
+  championId: string | null;
+};
+
+type SlotSource =
+  | { type: 'seed'; seed: number }
+  | { type: 'winner'; nodeId: string }
+  | { type: 'loser'; nodeId: string };
+
+type BracketNode = {
+  id: string;
+  side: BracketSide;
+  round: number;
+  position: number;
+  sourceA: SlotSource;
+  sourceB: SlotSource;
+  // Set on the grand final reset: the id of the first grand final it may replay.
+  resetOf: string | null;
+};
+
+// undefined = not decided yet, null = bye (the slot will never be filled).
+type SlotValue = BracketEntry | null | undefined;
+
+type NodeOutcome = {
+  winner: BracketEntry | null;
+  loser: BracketEntry | null;
+};
+
+export const resolveBracketFormat = (format: string): BracketFormat | null =>
+  format === 'single_elim' || format === 'double_elim' ? format : null;
+
+const resolveBracketSize = (entryCount: number) => {
+  let size = 2;
+  while (size < entryCount) {
+    size *= 2;
+  }
+  return size;
+};
+
+// Standard seeding so the top seeds can only meet in the latest possible round:
+// 1v8, 4v5, 2v7, 3v6 for an eight-slot draw.
+export const buildSeedOrder = (size: number) => {
+  let order = [1];
+  while (order.length < size) {
+    const mirror = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, mirror - seed]);
+  }
+  return order;
+};
+
+const buildNode = (
+  side: BracketSide,
+  round: number,
+  position: number,
+  sourceA: SlotSource,
+  sourceB: SlotSource,
+  resetOf: string | null = null
+): BracketNode => {
+  const prefix = side === 'winners' ? 'W' : side === 'losers' ? 'L' : 'GF';
+  return {
+    id: side === 'finals' ? `${prefix}-${round}` : `${prefix}${round}-${position + 1}`,
+    side,
+    round,
+    position,
+    sourceA,
+    sourceB,
+    resetOf
+  };
+};
+
+const winnerOf = (nodeId: string): SlotSource => ({ type: 'winner', nodeId });
+const loserOf = (nodeId: string): SlotSource => ({ type: 'loser', nodeId });
+
+const buildWinnersNodes = (size: number) => {
+  const seedOrder = buildSeedOrder(size);
+  const rounds: BracketNode[][] = [];
+  let matchCount = size / 2;
+  let round = 1;
+
+  while (matchCount >= 1) {
+    const previous = rounds[rounds.length - 1];
+    const nodes = Array.from({ length: matchCount }, (_, position) => {
+      const sourceA: SlotSource = previous
+        ? winnerOf(previous[position * 2].id)
+        : { type: 'seed', seed: seedOrder[position * 2] };
+      const sourceB: SlotSource = previous
+        ? winnerOf(previous[position * 2 + 1].id)
+        : { type: 'seed', seed: seedOrder[position * 2 + 1] };
+      return buildNode('winners', round, position, sourceA, sourceB);
+    });
+    rounds.push(nodes);
+    matchCount /= 2;
+    round += 1;
+  }
+
+  return rounds;
+};
+
+// Losers rounds alternate between "minor" rounds that pair surviving losers with each
+// other and "major" rounds that take the next batch of drop-downs from the winners side.
+// Drop-downs are reversed every other round to delay rematches.
+const buildLosersNodes = (winners: BracketNode[][]) => {
+  const rounds: BracketNode[][] = [];
+  if (winners.length < 2) {
+    return rounds;
+  }
+
+  const first = winners[0];
+  rounds.push(
+    Array.from({ length: first.length / 2 }, (_, position) =>
+      buildNode(
+        'losers',
+        1,
+        position,
+        loserOf(first[position * 2].id),
+        loserOf(first[position * 2 + 1].id)
+      )
+    )
+  );
+
+  for (let winnersRound = 1; winnersRound < winners.length; winnersRound += 1) {
+    const dropDowns = winners[winnersRound];
+    const survivors = rounds[rounds.length - 1];
+    const reverse = winnersRound % 2 === 1;
+    const majorRound = rounds.length + 1;
+    const major = survivors.map((node, position) =>
+      buildNode(
+        'losers',
+        majorRound,
+        position,
+        winnerOf(node.id),
+        loserOf(dropDowns[reverse ? dropDowns.length - 1 - position : position].id)
+      )
+    );
+    rounds.push(major);
+
+    if (major.length > 1) {
+      const minorRound = rounds.length + 1;
+      rounds.push(
+        Array.from({ length: major.length / 2 }, (_, position) =>
+          buildNode(
+            'losers',
+            minorRound,
+            position,
+            winnerOf(major[position * 2].id),
+            winnerOf(major[position * 2 + 1].id)
+          )
+        )
+      );
+    }
+  }
+
+  return rounds;
+};
+
+const buildBracketNodes = (format: BracketFormat, size: number) => {
+  const winners = buildWinnersNodes(size);
+  const winnersFinal = winners[winners.length - 1][0];
+  if (format === 'single_elim') {
+    return [...winners];
+  }
+
+  const losers = buildLosersNodes(winners);
+  const losersFinal = losers.length ? losers[losers.length - 1][0] : null;
+  const grandFinal = buildNode(
+    'finals',
+    1,
+    0,
+    winnerOf(winnersFinal.id),
+    losersFinal ? winnerOf(losersFinal.id) : loserOf(winnersFinal.id)
+  );
+  const reset = buildNode(
+    'finals',
+    2,
+    0,
+    winnerOf(grandFinal.id),
+    loserOf(grandFinal.id),
+    grandFinal.id
+  );
+
+  return [...winners, ...losers, [grandFinal], [reset]];
+};
+
+const buildRoundLabel = (
+  format: BracketFormat,
+  node: BracketNode,
+  roundCounts: Record<BracketSide, number>
+) => {
+  if (node.side === 'finals') {
+    return node.resetOf ? 'Grand Final Reset' : 'Grand Final';
+  }
+  const isLast = node.round === roundCounts[node.side];
+  if (node.side === 'losers') {
+    return isLast ? 'Losers Final' : `Losers Round ${node.round}`;
+  }
+  if (format === 'double_elim') {
+    return isLast ? 'Winners Final' : `Winners Round ${node.round}`;
+  }
+  const remaining = roundCounts.winners - node.round;
+  if (remaining === 0) {
+    return 'Final';
+  }
+  if (remaining === 1) {
+    return 'Semifinals';
+  }
+  if (remaining === 2) {
+    return 'Quarterfinals';
+  }
+  return `Round ${node.round}`;
+};
+
+// Builds the full bracket from seeded entries and advances it using the recorded
+// tournament matches. Byes advance the remaining entry without a recorded match, so
+// they never count as wins or feed the rating replay.
+export const buildBracket = (
+  format: BracketFormat,
+  entries: BracketEntry[],
+  matches: MatchRow[]
+): Bracket => {
+  if (entries.length < 2) {
+    return { format, size: 0, rounds: [], championId: null };
+  }
+
+  const size = resolveBracketSize(entries.length);
+  const nodeRounds = buildBracketNodes(format, size);
+  const entriesBySeed = new Map(entries.map((entry) => [entry.seed, entry]));
+  const outcomes = new Map<string, NodeOutcome>();
+  const resolved = new Map<string, BracketMatch>();
+
+  const recordedByPairing = indexMatchesByPairing(matches);
+
+  const resolveSource = (source: SlotSource): SlotValue => {
+    if (source.type === 'seed') {
+      return entriesBySeed.get(source.seed) ?? null;
+    }
+    const outcome = outcomes.get(source.nodeId);
+    if (!outcome) {
+      return undefined;
+    }
+    return source.type === 'winner' ? outcome.winner : outcome.loser;
+  };
+
+  const resolveNode = (node: BracketNode): BracketMatch => {
+    const entryA = resolveSource(node.sourceA);
+    const entryB = resolveSource(node.sourceB);
+    const base: BracketMatch = {
+      id: node.id,
+      side: node.side,
+      round: node.round,
+      position: node.position,
+      entryA: entryA ?? null,
+      entryB: entryB ?? null,
+      status: 'pending',
+      winnerId: null,
+      matchId: null
+    };
+
+    // The reset is only played when the losers-side champion takes the first final.
+    if (node.resetOf) {
+      const grandFinal = resolved.get(node.resetOf);
+      if (grandFinal?.status === 'complete' && grandFinal.winnerId === grandFinal.entryA?.id) {
+        outcomes.set(node.id, { winner: grandFinal.entryA, loser: null });
+        return { ...base, entryA: null, entryB: null, status: 'skipped' };
+      }
+    }
+
+    if (entryA === undefined || entryB === undefined) {
+      return base;
+    }
+
+    if (entryA === null || entryB === null) {
+      outcomes.set(node.id, { winner: entryA ?? entryB, loser: null });
+      return { ...base, status: 'bye', winnerId: (entryA ?? entryB)?.id ?? null };
+    }
+
+    const match = claimRecordedMatch(recordedByPairing, entryA, entryB);
+    if (!match) {
+      return { ...base, status: 'ready' };
+    }
+
+    const { winner, loser } = resolveEntryResult(match, entryA, entryB);
+    outcomes.set(node.id, { winner, loser });
+    return { ...base, status: 'complete', winnerId: winner.id, matchId: match.id };
+  };
+
+  const roundCounts: Record<BracketSide, number> = { winners: 0, losers: 0, finals: 0 };
+  nodeRounds.forEach((nodes) => {
+    roundCounts[nodes[0].side] = Math.max(roundCounts[nodes[0].side], nodes[0].round);
+  });
+
+  const rounds = nodeRounds.map((nodes) => {
+    const resolvedMatches = nodes.map((node) => {
+      const match = resolveNode(node);
+      resolved.set(node.id, match);
+      return match;
+    });
+    return {
+      side: nodes[0].side,
+      round: nodes[0].round,
+      label: buildRoundLabel(format, nodes[0], roundCounts),
+      matches: resolvedMatches
+    };
+  });
+
+  const lastNode = nodeRounds[nodeRounds.length - 1][0];
+  const championId = outcomes.get(lastNode.id)?.winner?.id ?? null;
+
+  return { format, size, rounds, championId };
+};
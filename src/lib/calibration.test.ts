@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { runCalibration } from './calibration';
+import { buildMatchGameTotals } from './elo';
+import { singlesGames, singlesHistory, testEloConfig } from './__fixtures__/matchHistory';
+
+const candidate = { id: 'fixture', label: 'Fixture', config: testEloConfig };
+const totals = buildMatchGameTotals(singlesHistory, singlesGames);
+
+describe('runCalibration', () => {
+  it('matches the golden scores for the singles fixture', () => {
+    const report = runCalibration(candidate, singlesHistory, totals);
+
+    expect(report.matchesScored).toBe(5);
+    expect(report.logLoss).toBeCloseTo(0.686176, 6);
+    expect(report.brierScore).toBeCloseTo(0.246521, 6);
+    expect(report.accuracy).toBe(0.5);
+    expect(
+      report.buckets
+        .filter((bucket) => bucket.count > 0)
+        .map((bucket) => [bucket.lower, bucket.count, Number(bucket.meanExpected.toFixed(4))])
+    ).toEqual([
+      [0.4, 2, 0.4874],
+      [0.5, 3, 0.5147]
+    ]);
+  });
+
+  it('replays warmup matches without scoring them', () => {
+    const report = runCalibration(candidate, singlesHistory, totals, { warmupMatches: 2 });
+
+    expect(report.matchesScored).toBe(3);
+    expect(report.logLoss).toBeCloseTo(0.675962, 6);
+    expect(report.brierScore).toBeCloseTo(0.241418, 6);
+    expect(report.accuracy).toBeCloseTo(2 / 3, 8);
+  });
+});
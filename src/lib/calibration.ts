@@ -0,0 +1,146 @@
+import type { EloConfig } from '../config/eloConfig';
+import type { MatchRow } from './data/types';
+import {
+  createEloRatingModel,
+  replayRatings,
+  resolveExpectedScore,
+  type MatchGameTotals,
+  type RatingLadder,
+  type RatingModel
+} from './elo';
+
+export type CalibrationCandidate = {
+  id: string;
+  label: string;
+  config: EloConfig;
+};
+
+export type CalibrationOverrides = {
+  kFactor: number;
+  scale: number;
+  scoreWeights: EloConfig['scoreWeights'];
+};
+
+export type CalibrationBucket = {
+  lower: number;
+  upper: number;
+  count: number;
+  meanExpected: number;
+  actualRate: number;
+};
+
+export type CalibrationReport = {
+  candidate: CalibrationCandidate;
+  matchesScored: number;
+  logLoss: number;
+  brierScore: number;
+  accuracy: number;
+  buckets: CalibrationBucket[];
+};
+
+export type CalibrationOptions = {
+  ladder?: RatingLadder;
+  // Matches replayed before scoring starts, so every config is judged after the
+  // ratings have had a chance to separate from the baseline.
+  warmupMatches?: number;
+};
+
+type CalibrationSample = {
+  expected: number;
+  outcome: number;
+};
+
+const BUCKET_COUNT = 10;
+const PROBABILITY_EPSILON = 1e-6;
+
+export const applyCalibrationOverrides = (
+  base: EloConfig,
+  overrides: CalibrationOverrides
+): EloConfig => ({
+  ...base,
+  kFactor: overrides.kFactor,
+  scale: overrides.scale,
+  scoreWeights: { ...overrides.scoreWeights }
+});
+
+const buildBuckets = (samples: CalibrationSample[]) => {
+  const buckets: CalibrationBucket[] = Array.from({ length: BUCKET_COUNT }, (_, index) => ({
+    lower: index / BUCKET_COUNT,
+    upper: (index + 1) / BUCKET_COUNT,
+    count: 0,
+    meanExpected: 0,
+    actualRate: 0
+  }));
+
+  samples.forEach((sample) => {
+    const index = Math.min(BUCKET_COUNT - 1, Math.floor(sample.expected * BUCKET_COUNT));
+    const bucket = buckets[index];
+    bucket.count += 1;
+    bucket.meanExpected += sample.expected;
+    bucket.actualRate += sample.outcome;
+  });
+
+  return buckets.map((bucket) =>
+    bucket.count > 0
+      ? {
+          ...bucket,
+          meanExpected: bucket.meanExpected / bucket.count,
+          actualRate: bucket.actualRate / bucket.count
+        }
+      : bucket
+  );
+};
+
+// Replays the history under one config and scores each match's pre-match expected
+// score against whether side A actually won the match.
+export const runCalibration = (
+  candidate: CalibrationCandidate,
+  matches: MatchRow[],
+  matchTotals: Map<string, MatchGameTotals>,
+  options: CalibrationOptions = {}
+): CalibrationReport => {
+  const baseModel = createEloRatingModel(candidate.config);
+  const samples: CalibrationSample[] = [];
+  const warmupMatches = Math.max(0, Math.floor(options.warmupMatches ?? 0));
+  let replayed = 0;
+
+  const model: RatingModel = {
+    ...baseModel,
+    applyMatch: (input) => {
+      const { sideAWins, sideBWins } = input.totals;
+      if (replayed >= warmupMatches && sideAWins !== sideBWins) {
+        samples.push({
+          expected: resolveExpectedScore(input, candidate.config),
+          outcome: sideAWins > sideBWins ? 1 : 0
+        });
+      }
+      replayed += 1;
+      baseModel.applyMatch(input);
+    }
+  };
+
+  replayRatings(model, matches, matchTotals, {
+    ladder: options.ladder,
+    inactivity: candidate.config.inactivity
+  });
+
+  const count = samples.length;
+  const sum = (score: (sample: CalibrationSample) => number) =>
+    samples.reduce((total, sample) => total + score(sample), 0);
+  const average = (score: (sample: CalibrationSample) => number) =>
+    count > 0 ? sum(score) / count : Number.NaN;
+
+  return {
+    candidate,
+    matchesScored: count,
+    logLoss: average((sample) => {
+      const p = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, sample.expected));
+      return -(sample.outcome * Math.log(p) + (1 - sample.outcome) * Math.log(1 - p));
+    }),
+    brierScore: average((sample) => (sample.expected - sample.outcome) ** 2),
+    accuracy: average((sample) =>
+      sample.expected === 0.5 ? 0.5 : Number(sample.expected > 0.5 === (sample.outcome === 1))
+    ),
+    buckets: buildBuckets(samples)
+  };
+};
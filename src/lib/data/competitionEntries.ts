@@ -0,0 +1,149 @@
+import { supabase } from '../supabaseClient';
+import { mapDbError } from './errors';
+import { requireDraftCompetition } from './competitions';
+import type {
+  CompetitionEntry,
+  CompetitionEntryInput,
+  CompetitionEntryMemberRow,
+  CompetitionEntryRow,
+  DbResult
+} from './types';
+import { validateCompetitionEntry } from '../tournamentEntries';
+import { useAuth } from '../../stores/auth';
+
+const entrySelect =
+  'id, competition_id, seed, status, is_active, created_at, created_by, updated_at, updated_by, competition_entry_members(player_id, slot, is_active)';
+
+type EntryWithMembers = CompetitionEntryRow & {
+  competition_entry_members: Pick<CompetitionEntryMemberRow, 'player_id' | 'slot' | 'is_active'>[] | null;
+};
+
+const toCompetitionEntry = ({
+  competition_entry_members: members,
+  ...entry
+}: EntryWithMembers): CompetitionEntry => ({
+  ...entry,
+  member_ids: (members ?? [])
+    .filter((member) => member.is_active)
+    .sort((a, b) => a.slot - b.slot)
+    .map((member) => member.player_id)
+});
+
+export const listCompetitionEntries = async (
+  competitionId: string,
+  options?: { includeInactive?: boolean }
+): Promise<DbResult<CompetitionEntry[]>> => {
+  const includeInactive = options?.includeInactive ?? false;
+  let query = supabase
+    .from('competition_entries')
+    .select(entrySelect)
+    .eq('competition_id', competitionId);
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query.order('seed', { ascending: true, nullsFirst: false });
+  if (error) {
+    return { data: null, error: mapDbError(error) };
+  }
+
+  return { data: ((data as EntryWithMembers[]) ?? []).map(toCompetitionEntry), error: null };
+};
+
+const requireProfileId = () => {
+  const { requireProfileId: authRequireProfileId } = useAuth();
+  return authRequireProfileId();
+};
+
+export const addCompetitionEntry = async (
+  input: CompetitionEntryInput
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const { data: competition, error: draftError } = await requireDraftCompetition(input.competitionId);
+  if (draftError || !competition) {
+    return { data: null, error: draftError ?? 'Competition not found.' };
+  }
+
+  const { data: entries, error: entriesError } = await listCompetitionEntries(input.competitionId);
+  if (entriesError) {
+    return { data: null, error: entriesError };
+  }
+
+  const validationErrors = validateCompetitionEntry(input, competition.match_type, entries ?? []);
+  if (validationErrors.length) {
+    return { data: null, error: validationErrors.join(' ') };
+  }
+
+  const { data, error: rpcError } = await supabase.rpc('competition_add_entry', {
+    p_competition_id: input.competitionId,
+    p_player_ids: input.playerIds.filter(Boolean),
+    p_created_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to add entry.') };
+  }
+
+  return { data: { id: data as string }, error: null };
+};
+
+// Seeds follow the given order (first id = seed 1). Entries left out fall back to
+// auto-seeding by Elo.
+export const setCompetitionSeeds = async (
+  competitionId: string,
+  orderedEntryIds: string[]
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const { error: draftError } = await requireDraftCompetition(competitionId);
+  if (draftError) {
+    return { data: null, error: draftError };
+  }
+
+  const { error: rpcError } = await supabase.rpc('competition_set_seeds', {
+    p_competition_id: competitionId,
+    p_entry_ids: orderedEntryIds,
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to save seeds.') };
+  }
+
+  return { data: { id: competitionId }, error: null };
+};
+
+// Withdrawn entries stay on record but drop out of seeding, schedules and brackets.
+export const withdrawCompetitionEntry = async (
+  competitionId: string,
+  entryId: string
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const { error: draftError } = await requireDraftCompetition(competitionId);
+  if (draftError) {
+    return { data: null, error: draftError };
+  }
+
+  const { error: rpcError } = await supabase.rpc('competition_withdraw_entry', {
+    p_entry_id: entryId,
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to withdraw entry.') };
+  }
+
+  return { data: { id: entryId }, error: null };
+};
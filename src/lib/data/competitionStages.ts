@@ -0,0 +1,110 @@
+import { supabase } from '../supabaseClient';
+import { mapDbError } from './errors';
+import { getCompetitionById } from './competitions';
+import type { CompetitionStageRow, CompetitionStageState, DbResult } from './types';
+import { useAuth } from '../../stores/auth';
+
+const stageSelect =
+  'id, competition_id, stage_number, format, group_count, advance_count, state, started_at, completed_at, is_active, created_at, created_by, updated_at, updated_by';
+
+const stateLabels: Record<CompetitionStageState, string> = {
+  draft: 'draft',
+  in_progress: 'in progress',
+  completed: 'completed'
+};
+
+// Stages only move forward: draft -> in_progress -> completed.
+export const competitionStageTransitions: Record<CompetitionStageState, CompetitionStageState | null> = {
+  draft: 'in_progress',
+  in_progress: 'completed',
+  completed: null
+};
+
+const requireProfileId = () => {
+  const { requireProfileId: authRequireProfileId } = useAuth();
+  return authRequireProfileId();
+};
+
+// Returns why a stage cannot move to `nextState`, or null when the move is allowed.
+// A stage can only start once every earlier stage is completed, because its entries
+// come from the previous stage's final standings.
+export const resolveStageTransitionError = (
+  stages: CompetitionStageRow[],
+  stageId: string,
+  nextState: CompetitionStageState
+): string | null => {
+  const stage = stages.find((candidate) => candidate.id === stageId);
+  if (!stage) {
+    return 'Stage not found.';
+  }
+
+  if (competitionStageTransitions[stage.state] !== nextState) {
+    return `A ${stateLabels[stage.state]} stage cannot be moved to ${stateLabels[nextState]}.`;
+  }
+
+  if (nextState === 'in_progress') {
+    const blocking = stages
+      .filter((candidate) => candidate.stage_number < stage.stage_number)
+      .find((candidate) => candidate.state !== 'completed');
+    if (blocking) {
+      return `Complete stage ${blocking.stage_number} before starting stage ${stage.stage_number}.`;
+    }
+  }
+
+  return null;
+};
+
+export const listCompetitionStages = async (
+  competitionId: string
+): Promise<DbResult<CompetitionStageRow[]>> => {
+  const { data, error } = await supabase
+    .from('competition_stages')
+    .select(stageSelect)
+    .eq('competition_id', competitionId)
+    .eq('is_active', true)
+    .order('stage_number', { ascending: true });
+
+  return { data: (data as CompetitionStageRow[]) ?? null, error: mapDbError(error) };
+};
+
+export const setCompetitionStageState = async (
+  competitionId: string,
+  stageId: string,
+  nextState: CompetitionStageState
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const { data: competition, error: competitionError } = await getCompetitionById(competitionId);
+  if (competitionError || !competition) {
+    return { data: null, error: competitionError ?? 'Competition not found.' };
+  }
+  if (competition.state !== 'in_progress') {
+    return { data: null, error: 'Stages can only move while the tournament is in progress.' };
+  }
+
+  // Re-read the pipeline so the check runs against current states, not a stale page.
+  const { data: stages, error: stagesError } = await listCompetitionStages(competitionId);
+  if (stagesError || !stages) {
+    return { data: null, error: stagesError ?? 'Failed to load stages.' };
+  }
+
+  const transitionError = resolveStageTransitionError(stages, stageId, nextState);
+  if (transitionError) {
+    return { data: null, error: transitionError };
+  }
+
+  const { error: rpcError } = await supabase.rpc('competition_stage_set_state', {
+    p_stage_id: stageId,
+    p_state: nextState,
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to update stage.') };
+  }
+
+  return { data: { id: stageId }, error: null };
+};
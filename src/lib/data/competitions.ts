@@ -1,23 +1,27 @@
 import { supabase } from '../supabaseClient';
 import { mapDbError } from './errors';
-import type { CompetitionRow, DbResult } from './types';
+import { invalidateMatchQueries } from './queryCache';
+import { withReadModelCache } from './readModels';
+import type { CompetitionInput, CompetitionRow, DbResult } from './types';
+import { useAuth } from '../../stores/auth';
 
 const competitionSelect =
-  'id, name, format, start_date, end_date, is_active, created_at, created_by, updated_at, updated_by';
+  'id, name, match_type, state, format, group_count, tiebreak_rules, start_date, end_date, is_active, created_at, created_by, updated_at, updated_by';
 
-export const listCompetitions = async (
+export const listCompetitions = (
   options?: { includeInactive?: boolean }
-): Promise<DbResult<CompetitionRow[]>> => {
-  const includeInactive = options?.includeInactive ?? false;
-  let query = supabase.from('competitions').select(competitionSelect);
+): Promise<DbResult<CompetitionRow[]>> =>
+  withReadModelCache('competitions', options ?? {}, async () => {
+    const includeInactive = options?.includeInactive ?? false;
+    let query = supabase.from('competitions').select(competitionSelect);
 
-  if (!includeInactive) {
-    query = query.eq('is_active', true);
-  }
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
 
-  const { data, error } = await query.order('start_date', { ascending: true, nullsFirst: true });
-  return { data: (data as CompetitionRow[]) ?? null, error: mapDbError(error) };
-};
+    const { data, error } = await query.order('start_date', { ascending: true, nullsFirst: true });
+    return { data: (data as CompetitionRow[]) ?? null, error: mapDbError(error) };
+  });
 
 export const getCompetitionById = async (id: string): Promise<DbResult<CompetitionRow>> => {
   const { data, error } = await supabase
@@ -32,3 +36,189 @@ export const getCompetitionById = async (id: string): Promise<DbResult<Competiti
 
   return { data: (data as CompetitionRow) ?? null, error: data ? null : 'Competition not found.' };
 };
+
+const requireProfileId = () => {
+  const { requireProfileId: authRequireProfileId } = useAuth();
+  return authRequireProfileId();
+};
+
+const draftOnlyMessage =
+  'This tournament has started. Entries, seeds and stages can only change after a rebuild.';
+
+// Entry, seed and stage edits are draft-only; anything after the start goes through
+// rebuildCompetition so the reset is audited.
+export const requireDraftCompetition = async (
+  competitionId: string
+): Promise<DbResult<CompetitionRow>> => {
+  const { data, error } = await getCompetitionById(competitionId);
+  if (error || !data) {
+    return { data: null, error: error ?? 'Competition not found.' };
+  }
+  if (data.state !== 'draft') {
+    return { data: null, error: draftOnlyMessage };
+  }
+  return { data, error: null };
+};
+
+export const validateCompetitionInput = (input: CompetitionInput): string[] => {
+  const errors: string[] = [];
+  if (!input.name.trim()) {
+    errors.push('Name is required.');
+  }
+  if (input.startDate && input.endDate && input.endDate < input.startDate) {
+    errors.push('End date must be on or after the start date.');
+  }
+  if (!input.stages.length) {
+    errors.push('Add at least one stage.');
+  }
+  input.stages.forEach((stage, index) => {
+    const label = `Stage ${index + 1}`;
+    if (!Number.isInteger(stage.groupCount) || stage.groupCount < 1) {
+      errors.push(`${label}: group count must be at least 1.`);
+    }
+    if (stage.format !== 'round_robin' && stage.groupCount !== 1) {
+      errors.push(`${label}: only round robin stages can have groups.`);
+    }
+    const isLast = index === input.stages.length - 1;
+    if (!isLast && (!Number.isInteger(stage.advanceCount) || (stage.advanceCount ?? 0) < 1)) {
+      errors.push(`${label}: choose how many entries per group advance.`);
+    }
+  });
+  return errors;
+};
+
+const buildCompetitionParams = (input: CompetitionInput) => ({
+  p_name: input.name.trim(),
+  p_match_type: input.matchType,
+  p_start_date: input.startDate,
+  p_end_date: input.endDate,
+  p_tiebreak_rules: input.tiebreakRules,
+  p_stages: input.stages.map((stage, index) => ({
+    stage_number: index + 1,
+    format: stage.format,
+    group_count: stage.groupCount,
+    advance_count: index === input.stages.length - 1 ? null : stage.advanceCount
+  }))
+});
+
+export const createCompetition = async (
+  input: CompetitionInput
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const validationErrors = validateCompetitionInput(input);
+  if (validationErrors.length) {
+    return { data: null, error: validationErrors.join(' ') };
+  }
+
+  const { data, error: rpcError } = await supabase.rpc('competition_create', {
+    ...buildCompetitionParams(input),
+    p_created_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to create tournament.') };
+  }
+
+  return { data: { id: data as string }, error: null };
+};
+
+export const updateCompetition = async (
+  competitionId: string,
+  input: CompetitionInput
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const validationErrors = validateCompetitionInput(input);
+  if (validationErrors.length) {
+    return { data: null, error: validationErrors.join(' ') };
+  }
+
+  const { error: draftError } = await requireDraftCompetition(competitionId);
+  if (draftError) {
+    return { data: null, error: draftError };
+  }
+
+  const { error: rpcError } = await supabase.rpc('competition_update', {
+    p_competition_id: competitionId,
+    ...buildCompetitionParams(input),
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to update tournament.') };
+  }
+
+  return { data: { id: competitionId }, error: null };
+};
+
+// Moves a draft tournament to in_progress and starts its first stage.
+export const lockCompetition = async (
+  competitionId: string
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const { error: draftError } = await requireDraftCompetition(competitionId);
+  if (draftError) {
+    return { data: null, error: draftError };
+  }
+
+  const { error: rpcError } = await supabase.rpc('competition_lock', {
+    p_competition_id: competitionId,
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to lock tournament.') };
+  }
+
+  return { data: { id: competitionId }, error: null };
+};
+
+// Resets all stages and returns the tournament to draft. Recorded matches stay rated
+// unless `voidMatches` is set. The reason is stored with the before/after audit entry.
+export const rebuildCompetition = async (
+  competitionId: string,
+  reason: string,
+  options: { voidMatches?: boolean } = {}
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  if (!reason.trim()) {
+    return { data: null, error: 'Give a reason for the rebuild.' };
+  }
+
+  const { data: competition, error: competitionError } = await getCompetitionById(competitionId);
+  if (competitionError || !competition) {
+    return { data: null, error: competitionError ?? 'Competition not found.' };
+  }
+  if (competition.state === 'draft') {
+    return { data: null, error: 'This tournament is still in draft; edit it directly.' };
+  }
+
+  const { error: rpcError } = await supabase.rpc('competition_rebuild', {
+    p_competition_id: competitionId,
+    p_reason: reason.trim(),
+    p_void_matches: options.voidMatches ?? false,
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to rebuild tournament.') };
+  }
+
+  invalidateMatchQueries();
+  return { data: { id: competitionId }, error: null };
+};
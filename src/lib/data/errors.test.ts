@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  connectionErrorMessage,
+  duplicateMatchMessage,
+  isConnectionErrorMessage,
+  mapDbError
+} from './errors';
+
+describe('mapDbError', () => {
+  it('returns null when there is no error', () => {
+    expect(mapDbError(null)).toBeNull();
+    expect(mapDbError(undefined)).toBeNull();
+  });
+
+  it('explains duplicate usernames', () => {
+    expect(
+      mapDbError({
+        code: '23505',
+        message: 'duplicate key value violates unique constraint',
+        details: 'Key (username)=(sam) already exists.'
+      })
+    ).toBe('That username is already taken.');
+  });
+
+  it('falls back to a generic unique-constraint message', () => {
+    expect(mapDbError({ code: '23505', message: 'duplicate key value', details: null })).toBe(
+      'Duplicate value violates a unique constraint.'
+    );
+  });
+
+  it('explains a match id that was already recorded', () => {
+    expect(
+      mapDbError({
+        code: '23505',
+        message: 'duplicate key value violates unique constraint "matches_pkey"',
+        details: null
+      })
+    ).toBe(duplicateMatchMessage);
+  });
+
+  it('strips the error name from fetch failures so they can be recognised', () => {
+    const mapped = mapDbError({ code: '', message: `Error: ${connectionErrorMessage}` });
+    expect(mapped).toBe(connectionErrorMessage);
+    expect(isConnectionErrorMessage(mapped)).toBe(true);
+    expect(isConnectionErrorMessage('permission denied')).toBe(false);
+  });
+
+  it('maps missing single rows to a not-found message', () => {
+    expect(mapDbError({ code: 'PGRST116', message: 'JSON object requested' })).toBe(
+      'Record not found.'
+    );
+  });
+
+  it('passes other messages through and uses the fallback when empty', () => {
+    expect(mapDbError({ code: '42501', message: 'permission denied' })).toBe('permission denied');
+    expect(mapDbError({ message: '' }, 'Could not save.')).toBe('Could not save.');
+  });
+});
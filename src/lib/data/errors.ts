@@ -6,17 +6,40 @@ export type DbError = {
 };
 
 export const missingProfileMessage = 'Profile not found for this account. Contact an admin.';
+export const connectionErrorMessage =
+  'Unable to reach the server. Please check your connection and try again.';
+export const timeoutErrorMessage = 'The server is taking too long to respond. Please try again.';
+export const duplicateMatchMessage = 'This match has already been recorded.';
+
+// fetchWithTimeoutAndRetry throws the two messages above; postgrest hands them back with
+// an empty code and the error name prefixed ("Error: Unable to reach the server...").
+const connectionMessages = [connectionErrorMessage, timeoutErrorMessage];
+
+export const isConnectionErrorMessage = (message: string | null | undefined) =>
+  !!message && connectionMessages.includes(message);
 
 export const mapDbError = (error: DbError | null | undefined, fallback = 'Something went wrong.') => {
   if (!error) {
     return null;
   }
 
+  if (!error.code) {
+    const connectionMessage = connectionMessages.find((message) =>
+      (error.message ?? '').endsWith(message)
+    );
+    if (connectionMessage) {
+      return connectionMessage;
+    }
+  }
+
   if (error.code === '23505') {
     const combined = `${error.message ?? ''} ${error.details ?? ''}`.toLowerCase();
     if (combined.includes('username')) {
       return 'That username is already taken.';
     }
+    if (combined.includes('matches_pkey')) {
+      return duplicateMatchMessage;
+    }
     return 'Duplicate value violates a unique constraint.';
   }
 
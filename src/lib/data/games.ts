@@ -1,5 +1,6 @@
 import { supabase } from '../supabaseClient';
 import { mapDbError } from './errors';
+import { withReadModelCache } from './readModels';
 import type { DbResult, GameRow } from './types';
 
 const gameSelect =
@@ -28,15 +29,27 @@ export const listGamesByMatchIds = async (
     return { data: [], error: null };
   }
 
-  const includeInactive = options?.includeInactive ?? false;
-  let query = supabase.from('games').select(gameSelect).in('match_id', matchIds);
-
-  if (!includeInactive) {
-    query = query.eq('is_active', true);
-  }
-
-  const { data, error } = await query
-    .order('match_id', { ascending: true })
-    .order('game_number', { ascending: true });
-  return { data: (data as GameRow[]) ?? null, error: mapDbError(error) };
+  const load = async (): Promise<DbResult<GameRow[]>> => {
+    const includeInactive = options?.includeInactive ?? false;
+    let query = supabase.from('games').select(gameSelect).in('match_id', matchIds);
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query
+      .order('match_id', { ascending: true })
+      .order('game_number', { ascending: true });
+    return { data: (data as GameRow[]) ?? null, error: mapDbError(error) };
+  };
+
+  // Cached as one set per option combination so every page's match list adds to it.
+  const requested = new Set(matchIds);
+  return withReadModelCache('games', options ?? {}, load, {
+    merge: (cached, fresh) => [
+      ...cached.filter((game) => !requested.has(game.match_id)),
+      ...fresh
+    ],
+    pick: (cached) => cached.filter((game) => requested.has(game.match_id))
+  });
 };
@@ -0,0 +1,253 @@
+import { supabase } from '../supabaseClient';
+import { mapDbError } from './errors';
+import type { DbResult, LadderChallengeRow, LadderPositionRow } from './types';
+import { getMatchById } from './matches';
+import { ladderConfig } from '../../config/ladderConfig';
+import { matchConfig } from '../../config/matchConfig';
+import { buildRespondBy, resolveChallengeError, resolveChallengeState } from '../ladder';
+import { isRatedMatch } from '../matchConfirmation';
+import { useAuth } from '../../stores/auth';
+
+const positionSelect =
+  'id, player_id, position, is_active, created_at, created_by, updated_at, updated_by';
+
+const challengeSelect =
+  'id, challenger_id, challenged_id, state, challenger_position, challenged_position, respond_by, accepted_at, match_id, winner_id, played_at, created_at, created_by, updated_at, updated_by';
+
+export const listLadderPositions = async (): Promise<DbResult<LadderPositionRow[]>> => {
+  const { data, error } = await supabase
+    .from('ladder_positions')
+    .select(positionSelect)
+    .eq('is_active', true)
+    .order('position', { ascending: true });
+
+  return { data: (data as LadderPositionRow[]) ?? null, error: mapDbError(error) };
+};
+
+export const listLadderChallenges = async (options?: {
+  limit?: number;
+}): Promise<DbResult<LadderChallengeRow[]>> => {
+  const { data, error } = await supabase
+    .from('ladder_challenges')
+    .select(challengeSelect)
+    .order('created_at', { ascending: false })
+    .limit(options?.limit ?? 50);
+
+  return { data: (data as LadderChallengeRow[]) ?? null, error: mapDbError(error) };
+};
+
+// Every issued or accepted challenge, optionally only those involving `playerIds`. Not
+// capped like the recent list, so busy checks see them all. Overdue issued rows are
+// included; `resolveChallengeState` treats them as expired.
+export const listOpenLadderChallenges = async (
+  playerIds?: string[]
+): Promise<DbResult<LadderChallengeRow[]>> => {
+  let query = supabase
+    .from('ladder_challenges')
+    .select(challengeSelect)
+    .in('state', ['issued', 'accepted']);
+
+  if (playerIds) {
+    const ids = playerIds.join(',');
+    query = query.or(`challenger_id.in.(${ids}),challenged_id.in.(${ids})`);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  return { data: (data as LadderChallengeRow[]) ?? null, error: mapDbError(error) };
+};
+
+export const getLadderChallengeById = async (id: string): Promise<DbResult<LadderChallengeRow>> => {
+  const { data, error } = await supabase
+    .from('ladder_challenges')
+    .select(challengeSelect)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    return { data: null, error: mapDbError(error) };
+  }
+
+  return { data: (data as LadderChallengeRow) ?? null, error: data ? null : 'Challenge not found.' };
+};
+
+const requireProfileId = () => {
+  const { requireProfileId: authRequireProfileId } = useAuth();
+  return authRequireProfileId();
+};
+
+// New players start at the bottom of the ladder.
+export const joinLadder = async (): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const { data, error: rpcError } = await supabase.rpc('ladder_join', {
+    p_created_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to join the ladder.') };
+  }
+
+  return { data: { id: data as string }, error: null };
+};
+
+export const issueLadderChallenge = async (
+  challengedId: string
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const [positionsResult, challengesResult] = await Promise.all([
+    listLadderPositions(),
+    listOpenLadderChallenges([profileId, challengedId])
+  ]);
+  if (positionsResult.error || challengesResult.error) {
+    return { data: null, error: positionsResult.error ?? challengesResult.error };
+  }
+
+  const now = new Date();
+  const challengeError = resolveChallengeError(
+    positionsResult.data ?? [],
+    challengesResult.data ?? [],
+    profileId,
+    challengedId,
+    ladderConfig.maxRankGap,
+    now
+  );
+  if (challengeError) {
+    return { data: null, error: challengeError };
+  }
+
+  const { data, error: rpcError } = await supabase.rpc('ladder_challenge_issue', {
+    p_challenged_id: challengedId,
+    p_max_rank_gap: ladderConfig.maxRankGap,
+    p_respond_by: buildRespondBy(now, ladderConfig.acceptWindowHours),
+    p_created_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to issue challenge.') };
+  }
+
+  return { data: { id: data as string }, error: null };
+};
+
+export const acceptLadderChallenge = async (
+  challengeId: string
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const { data: challenge, error: challengeError } = await getLadderChallengeById(challengeId);
+  if (challengeError || !challenge) {
+    return { data: null, error: challengeError ?? 'Challenge not found.' };
+  }
+  if (challenge.challenged_id !== profileId) {
+    return { data: null, error: 'Only the challenged player can accept.' };
+  }
+  if (resolveChallengeState(challenge, new Date()) !== 'issued') {
+    return { data: null, error: 'This challenge can no longer be accepted.' };
+  }
+
+  const { error: rpcError } = await supabase.rpc('ladder_challenge_accept', {
+    p_challenge_id: challengeId,
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to accept challenge.') };
+  }
+
+  return { data: { id: challengeId }, error: null };
+};
+
+// Links the match recorded with createMatch. Positions only change once that match is
+// confirmed: `match_confirm` and `match_dispute_resolve` complete the challenge, and
+// `completeAutoConfirmedChallenges` covers matches confirmed by timeout.
+export const linkLadderChallenge = async (
+  challengeId: string,
+  matchId: string
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const { error: rpcError } = await supabase.rpc('ladder_challenge_link', {
+    p_challenge_id: challengeId,
+    p_match_id: matchId,
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to link the match.') };
+  }
+
+  return { data: { id: challengeId }, error: null };
+};
+
+// The RPC reads the winner from the linked match and swaps the two positions when the
+// challenger won. It refuses while the match still awaits confirmation.
+export const completeLadderChallenge = async (
+  challengeId: string
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const { error: rpcError } = await supabase.rpc('ladder_challenge_complete', {
+    p_challenge_id: challengeId,
+    p_auto_confirm_hours: matchConfig.autoConfirmHours,
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to record the challenge result.') };
+  }
+
+  return { data: { id: challengeId }, error: null };
+};
+
+// Auto-confirmation is read-side only, so nothing on the server finishes a challenge whose
+// match was never answered. The next participant or admin to load the ladder does.
+// Returns how many challenges were completed.
+export const completeAutoConfirmedChallenges = async (
+  challenges: LadderChallengeRow[]
+): Promise<DbResult<number>> => {
+  const { profileId, isAdmin } = useAuth();
+  const now = new Date();
+  const linked = challenges.filter(
+    (challenge) =>
+      challenge.state === 'accepted' &&
+      challenge.match_id &&
+      (isAdmin.value ||
+        challenge.challenger_id === profileId.value ||
+        challenge.challenged_id === profileId.value)
+  );
+
+  let completed = 0;
+  for (const challenge of linked) {
+    const { data: match, error: matchError } = await getMatchById(challenge.match_id!);
+    if (matchError && matchError !== 'Match not found.') {
+      return { data: null, error: matchError };
+    }
+    if (!match?.is_active || !isRatedMatch(match, now, matchConfig.autoConfirmHours)) {
+      continue;
+    }
+    const { error: completeError } = await completeLadderChallenge(challenge.id);
+    if (completeError) {
+      return { data: null, error: completeError };
+    }
+    completed += 1;
+  }
+
+  return { data: completed, error: null };
+};
@@ -0,0 +1,101 @@
+import { supabase } from '../supabaseClient';
+import { liveConfig } from '../../config/liveConfig';
+import { invalidateMatchQueries } from './queryCache';
+
+const NOTIFY_DEBOUNCE_MS = 750;
+
+let channelCounter = 0;
+
+// Changes whenever a match or game is created, edited, confirmed or voided. Read through an
+// RPC because RLS hides voided rows from non-admins, so their newest visible row would not
+// move on a void.
+const readMatchFeedVersion = async () => {
+  const { data, error } = await supabase.rpc('match_feed_version');
+  if (error) {
+    return null;
+  }
+  return (data as string | null) ?? '';
+};
+
+// Calls `onChange` after matches or games change, once cached match reads have been
+// dropped. Listens on Supabase realtime and polls every `liveConfig.pollIntervalSeconds`
+// while the channel is not subscribed (realtime disabled, blocked by a proxy, or
+// reconnecting). Bursts such as a match plus its games arrive as one call. Returns an
+// unsubscribe function.
+export const subscribeToMatchFeed = (onChange: () => void) => {
+  let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let lastVersion: string | null = null;
+  let hasSubscribed = false;
+  let stopped = false;
+
+  const notify = () => {
+    if (notifyTimer) {
+      clearTimeout(notifyTimer);
+    }
+    notifyTimer = setTimeout(() => {
+      notifyTimer = null;
+      if (!stopped) {
+        invalidateMatchQueries();
+        onChange();
+      }
+    }, NOTIFY_DEBOUNCE_MS);
+  };
+
+  const poll = async () => {
+    const version = await readMatchFeedVersion();
+    if (stopped || version === null) {
+      return;
+    }
+    if (lastVersion !== null && version !== lastVersion) {
+      notify();
+    }
+    lastVersion = version;
+  };
+
+  const startPolling = () => {
+    if (pollTimer || stopped) {
+      return;
+    }
+    void poll();
+    pollTimer = setInterval(poll, Math.max(liveConfig.pollIntervalSeconds, 5) * 1000);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+    lastVersion = null;
+  };
+
+  channelCounter += 1;
+  const channel = supabase
+    .channel(`match-feed-${channelCounter}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'matches' }, notify)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'games' }, notify)
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        stopPolling();
+        // Anything that changed while reconnecting was never broadcast to us.
+        if (hasSubscribed) {
+          notify();
+        }
+        hasSubscribed = true;
+      } else {
+        startPolling();
+      }
+    });
+
+  // Poll until the channel confirms, in case it never does.
+  startPolling();
+
+  return () => {
+    stopped = true;
+    stopPolling();
+    if (notifyTimer) {
+      clearTimeout(notifyTimer);
+    }
+    void supabase.removeChannel(channel);
+  };
+};
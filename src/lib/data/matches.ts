@@ -1,17 +1,22 @@
 import { supabase } from '../supabaseClient';
 import { mapDbError } from './errors';
+import { invalidateMatchQueries } from './queryCache';
+import { withReadModelCache } from './readModels';
 import type {
   CreateMatchInput,
   DbResult,
   MatchRow,
+  MatchStatus,
   UpdateMatchInput
 } from './types';
+import { matchConfig } from '../../config/matchConfig';
+import { canRespondToMatch } from '../matchConfirmation';
 import { useAuth } from '../../stores/auth';
 
 const matchSelect =
-  'id, match_type, match_format, match_date, competition_type, competition_id, notes, side_a_games_won, side_b_games_won, winner_side, loser_side, is_active, created_at, created_by, updated_at, updated_by, team_a, team_b';
+  'id, match_type, match_format, match_date, competition_type, competition_id, notes, side_a_games_won, side_b_games_won, winner_side, loser_side, status, confirmed_at, confirmed_by, dispute_reason, is_active, created_at, created_by, updated_at, updated_by, team_a, team_b';
 
-const createUuid = () => {
+export const createUuid = () => {
   if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
     return crypto.randomUUID();
   }
@@ -27,7 +32,7 @@ const requireProfileId = () => {
   return authRequireProfileId();
 };
 
-export const listMatches = async (options?: {
+export const listMatches = (options?: {
   includeInactive?: boolean;
   playerId?: string;
   dateFrom?: string;
@@ -35,48 +40,54 @@ export const listMatches = async (options?: {
   competitionId?: string;
   competitionType?: 'ranked' | 'tournament';
   matchType?: 'singles' | 'doubles';
-}): Promise<DbResult<MatchRow[]>> => {
-  const includeInactive = options?.includeInactive ?? false;
-  let query = supabase.from('match_team_rosters').select(matchSelect);
+  status?: MatchStatus;
+}): Promise<DbResult<MatchRow[]>> =>
+  withReadModelCache('matches', options ?? {}, async () => {
+    const includeInactive = options?.includeInactive ?? false;
+    let query = supabase.from('match_team_rosters').select(matchSelect);
 
-  if (!includeInactive) {
-    query = query.eq('is_active', true);
-  }
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
 
-  if (options?.competitionId) {
-    query = query.eq('competition_id', options.competitionId);
-  }
+    if (options?.competitionId) {
+      query = query.eq('competition_id', options.competitionId);
+    }
 
-  if (options?.competitionType) {
-    query = query.eq('competition_type', options.competitionType);
-  }
+    if (options?.competitionType) {
+      query = query.eq('competition_type', options.competitionType);
+    }
 
-  if (options?.matchType) {
-    query = query.eq('match_type', options.matchType);
-  }
+    if (options?.matchType) {
+      query = query.eq('match_type', options.matchType);
+    }
 
-  if (options?.dateFrom) {
-    query = query.gte('match_date', options.dateFrom);
-  }
+    if (options?.status) {
+      query = query.eq('status', options.status);
+    }
 
-  if (options?.dateTo) {
-    query = query.lte('match_date', options.dateTo);
-  }
+    if (options?.dateFrom) {
+      query = query.gte('match_date', options.dateFrom);
+    }
 
-  const { data, error } = await query;
+    if (options?.dateTo) {
+      query = query.lte('match_date', options.dateTo);
+    }
 
-  let matches = (data as MatchRow[]) ?? [];
-  if (options?.playerId) {
-    const targetId = options.playerId;
-    matches = matches.filter((match) => {
-      const teamA = match.team_a ?? [];
-      const teamB = match.team_b ?? [];
-      return teamA.includes(targetId) || teamB.includes(targetId);
-    });
-  }
+    const { data, error } = await query;
 
-  return { data: matches, error: mapDbError(error) };
-};
+    let matches = (data as MatchRow[]) ?? [];
+    if (options?.playerId) {
+      const targetId = options.playerId;
+      matches = matches.filter((match) => {
+        const teamA = match.team_a ?? [];
+        const teamB = match.team_b ?? [];
+        return teamA.includes(targetId) || teamB.includes(targetId);
+      });
+    }
+
+    return { data: matches, error: mapDbError(error) };
+  });
 
 export const getMatchById = async (id: string): Promise<DbResult<MatchRow>> => {
   const { data, error } = await supabase
@@ -92,6 +103,8 @@ export const getMatchById = async (id: string): Promise<DbResult<MatchRow>> => {
   return { data: (data as MatchRow) ?? null, error: data ? null : 'Match not found.' };
 };
 
+// Results entered by a participant start out pending until someone on the other side
+// confirms them; admin entries are confirmed straight away. See match_create.
 export const createMatch = async (input: CreateMatchInput): Promise<DbResult<{ id: string }>> => {
   const { profileId, error } = requireProfileId();
   if (error || !profileId) {
@@ -118,6 +131,7 @@ export const createMatch = async (input: CreateMatchInput): Promise<DbResult<{ i
     return { data: null, error: mapDbError(rpcError, 'Unable to create match.') };
   }
 
+  invalidateMatchQueries();
   return { data: { id: matchId }, error: null };
 };
 
@@ -145,6 +159,7 @@ export const updateMatch = async (input: UpdateMatchInput): Promise<DbResult<{ i
     return { data: null, error: mapDbError(rpcError, 'Unable to update match.') };
   }
 
+  invalidateMatchQueries();
   return { data: { id: input.matchId }, error: null };
 };
 
@@ -163,5 +178,99 @@ export const voidMatch = async (matchId: string): Promise<DbResult<{ id: string
     return { data: null, error: mapDbError(rpcError, 'Unable to delete match.') };
   }
 
+  invalidateMatchQueries();
+  return { data: { id: matchId }, error: null };
+};
+
+const requireRespondableMatch = async (matchId: string, profileId: string) => {
+  const { data: match, error } = await getMatchById(matchId);
+  if (error || !match) {
+    return error ?? 'Match not found.';
+  }
+  if (!canRespondToMatch(match, profileId, new Date(), matchConfig.autoConfirmHours)) {
+    return 'Only the opposing side can respond, and only while the match is awaiting confirmation.';
+  }
+  return null;
+};
+
+export const confirmMatch = async (matchId: string): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const matchError = await requireRespondableMatch(matchId, profileId);
+  if (matchError) {
+    return { data: null, error: matchError };
+  }
+
+  const { error: rpcError } = await supabase.rpc('match_confirm', {
+    p_match_id: matchId,
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to confirm match.') };
+  }
+
+  invalidateMatchQueries();
+  return { data: { id: matchId }, error: null };
+};
+
+export const disputeMatch = async (
+  matchId: string,
+  reason: string
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const trimmedReason = reason.trim();
+  if (!trimmedReason) {
+    return { data: null, error: 'Say what is wrong with the result.' };
+  }
+
+  const matchError = await requireRespondableMatch(matchId, profileId);
+  if (matchError) {
+    return { data: null, error: matchError };
+  }
+
+  const { error: rpcError } = await supabase.rpc('match_dispute', {
+    p_match_id: matchId,
+    p_reason: trimmedReason,
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to dispute match.') };
+  }
+
+  invalidateMatchQueries();
+  return { data: { id: matchId }, error: null };
+};
+
+// Admin only. 'confirm' keeps the result as entered (fix it with updateMatch first if
+// needed); 'void' removes the match.
+export const resolveMatchDispute = async (
+  matchId: string,
+  resolution: 'confirm' | 'void'
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const { error: rpcError } = await supabase.rpc('match_dispute_resolve', {
+    p_match_id: matchId,
+    p_resolution: resolution,
+    p_updated_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to resolve dispute.') };
+  }
+
+  invalidateMatchQueries();
   return { data: { id: matchId }, error: null };
 };
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildQueryKey, createQueryCache } from './queryCache';
+
+const ok = <T>(data: T) => ({ data, error: null });
+
+describe('createQueryCache', () => {
+  it('shares one request between concurrent callers', async () => {
+    const cache = createQueryCache({ ttlMs: 1000 });
+    const load = vi.fn(async () => ok([1, 2]));
+
+    const [first, second] = await Promise.all([
+      cache.query('matches', ['matches'], load),
+      cache.query('matches', ['matches'], load)
+    ]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(second.data).toBe(first.data);
+  });
+
+  it('reuses results until they expire', async () => {
+    let time = 0;
+    const cache = createQueryCache({ ttlMs: 1000, now: () => time });
+    const load = vi.fn(async () => ok(time));
+
+    await cache.query('matches', ['matches'], load);
+    time = 999;
+    await cache.query('matches', ['matches'], load);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    time = 1000;
+    expect((await cache.query('matches', ['matches'], load)).data).toBe(1000);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not keep errors', async () => {
+    const cache = createQueryCache({ ttlMs: 1000 });
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce({ data: null, error: 'Offline' })
+      .mockResolvedValueOnce(ok('fresh'));
+
+    expect((await cache.query('profiles', ['profiles'], load)).error).toBe('Offline');
+    expect((await cache.query('profiles', ['profiles'], load)).data).toBe('fresh');
+  });
+
+  it('invalidates by tag', async () => {
+    const cache = createQueryCache({ ttlMs: 1000 });
+    const loadMatches = vi.fn(async () => ok('matches'));
+    const loadProfiles = vi.fn(async () => ok('profiles'));
+
+    await cache.query('matches', ['matches', 'games'], loadMatches);
+    await cache.query('profiles', ['profiles'], loadProfiles);
+    cache.invalidate(['games']);
+    await cache.query('matches', ['matches', 'games'], loadMatches);
+    await cache.query('profiles', ['profiles'], loadProfiles);
+
+    expect(loadMatches).toHaveBeenCalledTimes(2);
+    expect(loadProfiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not keep a result that was invalidated while in flight', async () => {
+    const cache = createQueryCache({ ttlMs: 1000 });
+    let resolveStale: (value: { data: string; error: null }) => void = () => {};
+    const stale = cache.query(
+      'matches',
+      ['matches'],
+      () => new Promise<{ data: string; error: null }>((resolve) => (resolveStale = resolve))
+    );
+
+    cache.invalidate(['matches']);
+    resolveStale(ok('stale'));
+    expect((await stale).data).toBe('stale');
+
+    const load = vi.fn(async () => ok('fresh'));
+    expect((await cache.query('matches', ['matches'], load)).data).toBe('fresh');
+  });
+});
+
+describe('buildQueryKey', () => {
+  it('distinguishes arguments', () => {
+    expect(buildQueryKey('matches', { matchType: 'singles' })).not.toBe(
+      buildQueryKey('matches', { matchType: 'doubles' })
+    );
+    expect(buildQueryKey('profiles', undefined)).toBe('profiles:null');
+  });
+});
@@ -0,0 +1,79 @@
+import type { DbResult } from './types';
+
+// What a cached read depends on; writes invalidate by tag.
+export type QueryTag = 'profiles' | 'matches' | 'games' | 'seasons';
+
+type QueryEntry = {
+  promise: Promise<DbResult<unknown>>;
+  tags: QueryTag[];
+  // Null while the request is still in flight.
+  settledAt: number | null;
+};
+
+export const buildQueryKey = (name: string, args: unknown) =>
+  `${name}:${JSON.stringify(args ?? null)}`;
+
+// Shares one request between callers asking for the same key at the same time and
+// reuses the result for `ttlMs`. Errors are never kept, so the next caller retries.
+export const createQueryCache = (options: { ttlMs: number; now?: () => number }) => {
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, QueryEntry>();
+
+  const query = <T>(
+    key: string,
+    tags: QueryTag[],
+    load: () => Promise<DbResult<T>>
+  ): Promise<DbResult<T>> => {
+    const existing = entries.get(key);
+    if (existing && (existing.settledAt === null || now() - existing.settledAt < options.ttlMs)) {
+      return existing.promise as Promise<DbResult<T>>;
+    }
+
+    const entry: QueryEntry = {
+      promise: Promise.resolve({ data: null, error: null }),
+      tags,
+      settledAt: null
+    };
+    // A result that lands after its entry was invalidated is still returned to the
+    // callers waiting on it, but not kept.
+    const isCurrent = () => entries.get(key) === entry;
+    entry.promise = load().then(
+      (result) => {
+        if (isCurrent()) {
+          if (result.error) {
+            entries.delete(key);
+          } else {
+            entry.settledAt = now();
+          }
+        }
+        return result;
+      },
+      (err) => {
+        if (isCurrent()) {
+          entries.delete(key);
+        }
+        throw err;
+      }
+    );
+    entries.set(key, entry);
+    return entry.promise as Promise<DbResult<T>>;
+  };
+
+  // Drops every entry carrying one of `tags`, or everything when no tags are given.
+  const invalidate = (tags?: QueryTag[]) => {
+    Array.from(entries.entries()).forEach(([key, entry]) => {
+      if (!tags || entry.tags.some((tag) => tags.includes(tag))) {
+        entries.delete(key);
+      }
+    });
+  };
+
+  return { query, invalidate };
+};
+
+const QUERY_TTL_MS = 60_000;
+
+export const queryCache = createQueryCache({ ttlMs: QUERY_TTL_MS });
+
+// Called after any write that changes match results.
+export const invalidateMatchQueries = () => queryCache.invalidate(['matches', 'games']);
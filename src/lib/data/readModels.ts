@@ -0,0 +1,56 @@
+import { isConnectionErrorMessage } from './errors';
+import { queryCache } from './queryCache';
+import type { DbResult } from './types';
+import {
+  buildReadModelKey,
+  readCachedReadModel,
+  writeCachedReadModel
+} from '../readModelCache';
+import { useOfflineData } from '../../stores/offlineData';
+
+type ReadModelSlice<T> = {
+  // Folds a fresh result into the cached value, for reads that each fetch one slice of a
+  // larger set (e.g. games for a list of match ids).
+  merge: (cached: T, fresh: T) => T;
+  // Picks the requested slice back out of the cached value.
+  pick: (cached: T) => T;
+};
+
+const saveReadModel = async <T>(key: string, fresh: T, slice?: ReadModelSlice<T>) => {
+  const cached = slice ? await readCachedReadModel<T>(key) : null;
+  await writeCachedReadModel(key, slice && cached ? slice.merge(cached.data, fresh) : fresh);
+};
+
+// Remembers the last successful result of a read and serves it when the server cannot be
+// reached, flagging the data as stale. Any other error is returned unchanged.
+export const withReadModelCache = async <T>(
+  name: string,
+  args: unknown,
+  load: () => Promise<DbResult<T>>,
+  slice?: ReadModelSlice<T>
+): Promise<DbResult<T>> => {
+  const { markReadModelFresh, markReadModelStale } = useOfflineData();
+  const key = buildReadModelKey(name, args);
+  const result = await load();
+
+  if (!result.error && result.data !== null) {
+    markReadModelFresh(key);
+    void saveReadModel(key, result.data, slice);
+    return result;
+  }
+
+  if (!isConnectionErrorMessage(result.error)) {
+    return result;
+  }
+
+  const cached = await readCachedReadModel<T>(key);
+  if (!cached) {
+    return result;
+  }
+
+  markReadModelStale(key, cached.savedAt);
+  // Keep device copies out of the in-memory query cache, or the next page would reuse
+  // them without flagging them as stale.
+  queryCache.invalidate();
+  return { data: slice ? slice.pick(cached.data) : cached.data, error: null };
+};
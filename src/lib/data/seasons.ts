@@ -0,0 +1,150 @@
+import { supabase } from '../supabaseClient';
+import { mapDbError } from './errors';
+import { queryCache } from './queryCache';
+import { withReadModelCache } from './readModels';
+import type {
+  DbResult,
+  MatchType,
+  SeasonInput,
+  SeasonRow,
+  SeasonStandingInput,
+  SeasonStandingRow
+} from './types';
+import { useAuth } from '../../stores/auth';
+
+const seasonSelect =
+  'id, name, start_date, end_date, rating_mode, reset_regression, is_active, created_at, created_by, updated_at, updated_by';
+
+const standingSelect =
+  'id, season_id, match_type, rank, player_id, rating, matches_played, wins, losses, games_won, games_lost, points_for, created_at, created_by';
+
+export const listSeasons = (): Promise<DbResult<SeasonRow[]>> =>
+  withReadModelCache('seasons', null, async () => {
+    const { data, error } = await supabase
+      .from('seasons')
+      .select(seasonSelect)
+      .eq('is_active', true)
+      .order('start_date', { ascending: true });
+
+    return { data: (data as SeasonRow[]) ?? null, error: mapDbError(error) };
+  });
+
+export const listSeasonStandings = (
+  seasonId: string,
+  matchType: MatchType
+): Promise<DbResult<SeasonStandingRow[]>> =>
+  withReadModelCache('season-standings', { seasonId, matchType }, async () => {
+    const { data, error } = await supabase
+      .from('season_standings')
+      .select(standingSelect)
+      .eq('season_id', seasonId)
+      .eq('match_type', matchType)
+      .order('rank', { ascending: true });
+
+    return { data: (data as SeasonStandingRow[]) ?? null, error: mapDbError(error) };
+  });
+
+const requireProfileId = () => {
+  const { requireProfileId: authRequireProfileId } = useAuth();
+  return authRequireProfileId();
+};
+
+export const validateSeasonInput = (input: SeasonInput, existingSeasons: SeasonRow[]): string[] => {
+  const errors: string[] = [];
+  if (!input.name.trim()) {
+    errors.push('Name is required.');
+  }
+  if (!input.startDate || !input.endDate) {
+    errors.push('Start and end dates are required.');
+  } else if (input.endDate < input.startDate) {
+    errors.push('End date must be on or after the start date.');
+  } else {
+    const overlap = existingSeasons.find(
+      (season) => season.start_date <= input.endDate && season.end_date >= input.startDate
+    );
+    if (overlap) {
+      errors.push(`Dates overlap with ${overlap.name}.`);
+    }
+  }
+  if (
+    input.ratingMode === 'soft_reset' &&
+    !(Number.isFinite(input.resetRegression) && input.resetRegression > 0 && input.resetRegression <= 1)
+  ) {
+    errors.push('Soft reset regression must be between 0 and 1.');
+  }
+  return errors;
+};
+
+export const createSeason = async (input: SeasonInput): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const { data: seasons, error: seasonsError } = await listSeasons();
+  if (seasonsError) {
+    return { data: null, error: seasonsError };
+  }
+
+  const validationErrors = validateSeasonInput(input, seasons ?? []);
+  if (validationErrors.length) {
+    return { data: null, error: validationErrors.join(' ') };
+  }
+
+  const { data, error: rpcError } = await supabase.rpc('season_create', {
+    p_name: input.name.trim(),
+    p_start_date: input.startDate,
+    p_end_date: input.endDate,
+    p_rating_mode: input.ratingMode,
+    p_reset_regression: input.ratingMode === 'soft_reset' ? input.resetRegression : 0,
+    p_created_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to create season.') };
+  }
+
+  // A new soft-reset season changes every rating replay.
+  queryCache.invalidate(['seasons']);
+  return { data: { id: data as string }, error: null };
+};
+
+// Freezes the final table for one ladder. The RPC refuses seasons that have not ended
+// and ladders that were already archived, so a frozen table never changes.
+export const archiveSeasonStandings = async (
+  seasonId: string,
+  matchType: MatchType,
+  standings: SeasonStandingInput[]
+): Promise<DbResult<{ id: string }>> => {
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  if (!standings.length) {
+    return { data: null, error: 'There are no standings to archive.' };
+  }
+
+  const { error: rpcError } = await supabase.rpc('season_archive', {
+    p_season_id: seasonId,
+    p_match_type: matchType,
+    p_standings: standings.map((row) => ({
+      player_id: row.playerId,
+      rank: row.rank,
+      rating: row.rating,
+      matches_played: row.matchesPlayed,
+      wins: row.wins,
+      losses: row.losses,
+      games_won: row.gamesWon,
+      games_lost: row.gamesLost,
+      points_for: row.pointsFor
+    })),
+    p_created_by: profileId
+  });
+
+  if (rpcError) {
+    return { data: null, error: mapDbError(rpcError, 'Unable to archive standings.') };
+  }
+
+  return { data: { id: seasonId }, error: null };
+};
@@ -4,6 +4,7 @@ export type MatchFormat = 'bo1' | 'bo3' | 'bo5' | 'bo7';
 export type CompetitionType = 'ranked' | 'tournament';
 export type MatchType = 'singles' | 'doubles';
 export type MatchSide = 'A' | 'B';
+export type MatchStatus = 'pending' | 'confirmed' | 'disputed';
 
 export type ProfileRow = {
   id: string;
@@ -32,6 +33,10 @@ export type MatchRow = {
   side_b_games_won: number;
   winner_side: MatchSide;
   loser_side: MatchSide;
+  status: MatchStatus;
+  confirmed_at: DbTimestamp | null;
+  confirmed_by: string | null;
+  dispute_reason: string | null;
   is_active: boolean;
   created_at: DbTimestamp;
   created_by: string;
@@ -54,10 +59,20 @@ export type GameRow = {
   updated_by: string | null;
 };
 
+export type TiebreakRule = 'match_wins' | 'game_difference' | 'points' | 'head_to_head';
+
+// Entries, seeds and stages can only change in `draft`.
+export type CompetitionState = 'draft' | 'in_progress' | 'completed' | 'archived';
+
 export type CompetitionRow = {
   id: string;
   name: string;
+  match_type: MatchType;
+  state: CompetitionState;
   format: string;
+  group_count: number;
+  // Ordered tie-break chain; validate with resolveTiebreakRules before use.
+  tiebreak_rules: TiebreakRule[] | null;
   start_date: string | null;
   end_date: string | null;
   is_active: boolean;
@@ -67,6 +82,130 @@ export type CompetitionRow = {
   updated_by: string | null;
 };
 
+export type CompetitionStageState = 'draft' | 'in_progress' | 'completed';
+
+export type CompetitionStageRow = {
+  id: string;
+  competition_id: string;
+  stage_number: number;
+  format: string;
+  group_count: number;
+  // Entries per group that move on to the next stage; null on the final stage.
+  advance_count: number | null;
+  state: CompetitionStageState;
+  started_at: DbTimestamp | null;
+  completed_at: DbTimestamp | null;
+  is_active: boolean;
+  created_at: DbTimestamp;
+  created_by: string;
+  updated_at: DbTimestamp | null;
+  updated_by: string | null;
+};
+
+export type CompetitionEntryStatus = 'active' | 'withdrawn';
+
+export type CompetitionEntryRow = {
+  id: string;
+  competition_id: string;
+  seed: number | null;
+  status: CompetitionEntryStatus;
+  is_active: boolean;
+  created_at: DbTimestamp;
+  created_by: string;
+  updated_at: DbTimestamp | null;
+  updated_by: string | null;
+};
+
+export type CompetitionEntryMemberRow = {
+  id: string;
+  entry_id: string;
+  player_id: string;
+  slot: number;
+  is_active: boolean;
+  created_at: DbTimestamp;
+  created_by: string;
+  updated_at: DbTimestamp | null;
+  updated_by: string | null;
+};
+
+// Read shape: an entry with its active members' player ids ordered by slot.
+export type CompetitionEntry = CompetitionEntryRow & {
+  member_ids: string[];
+};
+
+export type CompetitionEntryInput = {
+  competitionId: string;
+  // Slot order: the first id is slot 1.
+  playerIds: string[];
+};
+
+// Soft reset regresses every rating toward the baseline when the season starts;
+// continuous seasons carry ratings over untouched.
+export type SeasonRatingMode = 'soft_reset' | 'continuous';
+
+export type SeasonRow = {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  rating_mode: SeasonRatingMode;
+  reset_regression: number;
+  is_active: boolean;
+  created_at: DbTimestamp;
+  created_by: string;
+  updated_at: DbTimestamp | null;
+  updated_by: string | null;
+};
+
+export type SeasonStandingRow = {
+  id: string;
+  season_id: string;
+  match_type: MatchType;
+  rank: number;
+  player_id: string;
+  rating: number | null;
+  matches_played: number;
+  wins: number;
+  losses: number;
+  games_won: number;
+  games_lost: number;
+  points_for: number;
+  created_at: DbTimestamp;
+  created_by: string;
+};
+
+export type LadderChallengeState = 'issued' | 'accepted' | 'expired' | 'played';
+
+export type LadderPositionRow = {
+  id: string;
+  player_id: string;
+  position: number;
+  is_active: boolean;
+  created_at: DbTimestamp;
+  created_by: string;
+  updated_at: DbTimestamp | null;
+  updated_by: string | null;
+};
+
+export type LadderChallengeRow = {
+  id: string;
+  challenger_id: string;
+  challenged_id: string;
+  state: LadderChallengeState;
+  // Positions when the challenge was issued, kept for the record.
+  challenger_position: number;
+  challenged_position: number;
+  respond_by: DbTimestamp;
+  accepted_at: DbTimestamp | null;
+  match_id: string | null;
+  winner_id: string | null;
+  played_at: DbTimestamp | null;
+  created_at: DbTimestamp;
+  created_by: string;
+  updated_at: DbTimestamp | null;
+  updated_by: string | null;
+};
+
 export type AuditLogRow = {
   id: string;
   entity_type: string;
@@ -127,6 +266,41 @@ export type UpdateMatchInput = {
   notes?: string | null;
 };
 
+export type CompetitionStageInput = {
+  format: string;
+  groupCount: number;
+  advanceCount: number | null;
+};
+
+export type CompetitionInput = {
+  name: string;
+  matchType: MatchType;
+  startDate: string | null;
+  endDate: string | null;
+  tiebreakRules: TiebreakRule[];
+  stages: CompetitionStageInput[];
+};
+
+export type SeasonInput = {
+  name: string;
+  startDate: string;
+  endDate: string;
+  ratingMode: SeasonRatingMode;
+  resetRegression: number;
+};
+
+export type SeasonStandingInput = {
+  playerId: string;
+  rank: number;
+  rating: number | null;
+  matchesPlayed: number;
+  wins: number;
+  losses: number;
+  gamesWon: number;
+  gamesLost: number;
+  pointsFor: number;
+};
+
 export type DbResult<T> = {
   data: T | null;
   error: string | null;
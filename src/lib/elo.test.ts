@@ -0,0 +1,400 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMatchGameTotals,
+  createEloRatingModel,
+  isInactive,
+  predictMatch,
+  replayRatings,
+  resolveMatchScore,
+  resolveScoreWeights,
+  type MatchGameTotals
+} from './elo';
+import {
+  buildGames,
+  buildMatch,
+  singlesGames,
+  singlesHistory,
+  testEloConfig
+} from './__fixtures__/matchHistory';
+import type { MatchRow } from './data/types';
+
+const model = createEloRatingModel(testEloConfig);
+
+const replay = (matches = singlesHistory, games = singlesGames, config = testEloConfig) =>
+  replayRatings(createEloRatingModel(config), matches, buildMatchGameTotals(matches, games), {
+    inactivity: config.inactivity
+  });
+
+const roundedRatings = (states: Map<string, { rating: number }>) =>
+  Object.fromEntries(
+    Array.from(states.entries()).map(([id, state]) => [id, Number(state.rating.toFixed(2))])
+  );
+
+describe('buildMatchGameTotals', () => {
+  it('counts points from tied games but not the game itself', () => {
+    const match = buildMatch('m1', ['a'], ['b']);
+    const totals = buildMatchGameTotals(
+      [match],
+      buildGames('m1', [
+        [11, 5],
+        [10, 10],
+        [9, 11]
+      ])
+    );
+
+    expect(totals.get('m1')).toEqual({
+      sideAWins: 1,
+      sideBWins: 1,
+      sideAPoints: 30,
+      sideBPoints: 26,
+      totalGames: 2
+    });
+  });
+
+  it('ignores games for matches outside the list', () => {
+    const totals = buildMatchGameTotals([buildMatch('m1', ['a'], ['b'])], buildGames('m2', [[11, 3]]));
+    expect(totals.size).toBe(0);
+  });
+});
+
+describe('resolveScoreWeights', () => {
+  it('treats negative and non-finite weights as zero', () => {
+    const weights = resolveScoreWeights({
+      ...testEloConfig,
+      scoreWeights: { outcome: 2, games: -1, points: Number.NaN }
+    });
+    expect(weights).toEqual({ outcome: 2, games: 0, points: 0, total: 2 });
+  });
+
+  it('falls back to outcome only when every weight is disabled', () => {
+    const weights = resolveScoreWeights({
+      ...testEloConfig,
+      scoreWeights: { outcome: 0, games: 0, points: 0 }
+    });
+    expect(weights).toEqual({ outcome: 1, games: 0, points: 0, total: 1 });
+  });
+});
+
+describe('resolveMatchScore', () => {
+  const totals: MatchGameTotals = {
+    sideAWins: 2,
+    sideBWins: 1,
+    sideAPoints: 30,
+    sideBPoints: 30,
+    totalGames: 3
+  };
+
+  it('blends outcome, game share and point share', () => {
+    const score = resolveMatchScore(totals, resolveScoreWeights(testEloConfig));
+    expect(score).toBeCloseTo((1 + 2 / 3 + 0.5) / 3, 10);
+  });
+
+  it('uses the outcome alone with outcome-only weights', () => {
+    expect(resolveMatchScore(totals, { outcome: 1, games: 0, points: 0, total: 1 })).toBe(1);
+  });
+});
+
+describe('replayRatings with the Elo model', () => {
+  it('matches the golden ratings for the singles fixture', () => {
+    const { states, events } = replay();
+
+    expect(roundedRatings(states)).toEqual({
+      alice: 1048.01,
+      bob: 975.8,
+      carol: 976.19
+    });
+    expect(events.map((event) => Number(event.deltas.alice?.toFixed(2) ?? 0))).toEqual([
+      14.39, 0, 23.5, 0, 10.12
+    ]);
+  });
+
+  it('is zero-sum for equal K on both sides', () => {
+    const { states } = replay();
+    const total = Array.from(states.values()).reduce((sum, state) => sum + state.rating, 0);
+    expect(total).toBeCloseTo(3 * testEloConfig.baseline, 8);
+  });
+
+  it('replays in date, then created_at, then id order regardless of input order', () => {
+    const shuffled = [...singlesHistory].reverse();
+    expect(roundedRatings(replay(shuffled).states)).toEqual(roundedRatings(replay().states));
+
+    const sameDay = [
+      buildMatch('b', ['x'], ['y'], { created_at: '2025-01-01T10:00:00Z' }),
+      buildMatch('a', ['x'], ['y'], { created_at: '2025-01-01T10:00:00Z' }),
+      buildMatch('c', ['x'], ['y'], { created_at: '2025-01-01T09:00:00Z' })
+    ];
+    const games = ['a', 'b', 'c'].flatMap((id) => buildGames(id, [[11, 2]]));
+    const { events } = replay(sameDay, games);
+    expect(events.map((event) => event.matchId)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('clamps ratings at the configured floor', () => {
+    const config = { ...testEloConfig, baseline: 410, kFactor: 400 };
+    const match = buildMatch('m1', ['a'], ['b']);
+    const { states } = replay(
+      [match],
+      buildGames('m1', [
+        [11, 0],
+        [11, 0]
+      ]),
+      config
+    );
+
+    expect(states.get('b')?.rating).toBe(config.floor);
+    expect(states.get('a')?.rating).toBeGreaterThan(config.baseline);
+  });
+
+  it('skips matches without decided games', () => {
+    const match = buildMatch('m1', ['a'], ['b']);
+    const { events, states } = replay([match], buildGames('m1', [[10, 10]]));
+    expect(events).toHaveLength(0);
+    expect(states.size).toBe(0);
+  });
+
+  it('skips disputed matches and pending matches inside the confirmation window', () => {
+    const history = [
+      buildMatch('m1', ['a'], ['b'], { status: 'disputed' }),
+      buildMatch('m2', ['a'], ['b'], { status: 'pending', created_at: new Date().toISOString() }),
+      buildMatch('m3', ['a'], ['b'], { status: 'pending' })
+    ];
+    const games = history.flatMap((match) => buildGames(match.id, [[11, 9]]));
+    const { events } = replay(history, games);
+    expect(events.map((event) => event.matchId)).toEqual(['m3']);
+  });
+
+  it('applies the provisional K multiplier to new players only', () => {
+    const config = {
+      ...testEloConfig,
+      provisional: { matches: 2, kMultiplier: 2, hideFromRanking: false }
+    };
+    const history = [
+      buildMatch('m1', ['a'], ['b'], { match_date: '2025-01-01' }),
+      buildMatch('m2', ['a'], ['b'], { match_date: '2025-01-02' }),
+      buildMatch('m3', ['a'], ['b'], { match_date: '2025-01-03' })
+    ];
+    const games = history.flatMap((match) => buildGames(match.id, [[11, 9]]));
+    const provisional = replay(history, games, config).events.map((event) => event.deltas.a);
+    const established = replay(history, games).events.map((event) => event.deltas.a);
+
+    expect(provisional[0] / established[0]).toBeCloseTo(2, 8);
+    expect(provisional[2]).toBeLessThan(established[2] * 1.5);
+  });
+
+  it('regresses ratings toward the baseline at each reset', () => {
+    const history = [
+      buildMatch('m1', ['a'], ['b'], { match_date: '2025-01-01' }),
+      buildMatch('m2', ['a'], ['b'], { match_date: '2025-04-01' })
+    ];
+    const games = history.flatMap((match) => buildGames(match.id, [[11, 4]]));
+    const totals = buildMatchGameTotals(history, games);
+    const options = { inactivity: testEloConfig.inactivity };
+    const continuous = replayRatings(model, history, totals, options);
+    const reset = replayRatings(model, history, totals, {
+      ...options,
+      resets: [{ date: '2025-04-01', regression: 0.5 }]
+    });
+
+    const afterFirst = continuous.events[0].postRatings.a;
+    expect(reset.events[1].preRatings.a).toBeCloseTo(1000 + (afterFirst - 1000) / 2, 8);
+    expect(continuous.events[1].preRatings.a).toBeCloseTo(afterFirst, 8);
+
+    const pending = replayRatings(model, history.slice(0, 1), totals, {
+      ...options,
+      resets: [{ date: '2025-04-01', regression: 1 }],
+      asOfDate: '2025-04-02'
+    });
+    expect(pending.states.get('a')?.rating).toBe(1000);
+  });
+
+  it('resumes from a checkpoint with the same result as a full replay', () => {
+    const totals = buildMatchGameTotals(singlesHistory, singlesGames);
+    const options = { inactivity: testEloConfig.inactivity, asOfDate: '2025-02-01' };
+    const earlier = replayRatings(model, singlesHistory.slice(0, 3), totals, options);
+    const full = replayRatings(model, singlesHistory, totals, options);
+    const resumed = replayRatings(model, singlesHistory, totals, {
+      ...options,
+      resumeFrom: earlier.checkpoint
+    });
+
+    expect(resumed.states).toEqual(full.states);
+    expect(resumed.events).toEqual(full.events);
+    expect(earlier.checkpoint.states.get('alice')?.matchesPlayed).toBe(2);
+  });
+
+  it('replays from the start when a checkpointed match has changed', () => {
+    const totals = buildMatchGameTotals(singlesHistory, singlesGames);
+    const options = { inactivity: testEloConfig.inactivity };
+    const earlier = replayRatings(model, singlesHistory, totals, options);
+    const edited = singlesHistory.map((match) =>
+      match.id === 'm2'
+        ? { ...match, team_a: ['carol'], team_b: ['bob'], updated_at: '2025-02-01T10:00:00Z' }
+        : match
+    );
+    const resumed = replayRatings(model, edited, totals, {
+      ...options,
+      resumeFrom: earlier.checkpoint
+    });
+
+    expect(resumed.states).toEqual(replayRatings(model, edited, totals, options).states);
+    expect(resumed.events[1].teamAIds).toEqual(['carol']);
+  });
+
+  it('rates doubles pairs separately from individual ratings', () => {
+    const match = buildMatch('d1', ['a', 'b'], ['c', 'd']);
+    const { states, teamStates } = replayRatings(
+      model,
+      [match],
+      buildMatchGameTotals([match], buildGames('d1', [[11, 6]])),
+      { inactivity: testEloConfig.inactivity }
+    );
+
+    expect(states.size).toBe(4);
+    expect(Array.from(teamStates.keys()).sort()).toEqual(['a|b', 'c|d']);
+    expect(teamStates.get('a|b')?.matchesPlayed).toBe(1);
+  });
+
+  it('scales K by the tournament multiplier', () => {
+    const games = buildGames('m1', [[11, 7]]);
+    const ranked = replay([buildMatch('m1', ['a'], ['b'])], games).events[0];
+    const tournament = replay(
+      [buildMatch('m1', ['a'], ['b'], { competition_type: 'tournament' })],
+      games
+    ).events[0];
+
+    expect(tournament.deltas.a / ranked.deltas.a).toBeCloseTo(
+      testEloConfig.tournamentMultiplier,
+      8
+    );
+  });
+
+  it('matches the golden ratings with inactivity drift', () => {
+    const config = {
+      ...testEloConfig,
+      inactivity: { mode: 'drift' as const, idleWeeks: 4, driftPerWeek: 0.05 }
+    };
+    // Ten weeks after the fixture, so alice and carol drift for six weeks before it.
+    const history = [
+      ...singlesHistory,
+      buildMatch('m6', ['alice'], ['carol'], { match_date: '2025-03-24' })
+    ];
+    const games = [
+      ...singlesGames,
+      ...buildGames('m6', [
+        [11, 9],
+        [11, 9]
+      ])
+    ];
+    const totals = buildMatchGameTotals(history, games);
+    const options = { inactivity: config.inactivity };
+    const { events } = replayRatings(createEloRatingModel(config), history, totals, options);
+    const last = events[events.length - 1];
+
+    expect(last.preRatings.alice).toBeCloseTo(1035.29, 2);
+    expect(last.preRatings.carol).toBeCloseTo(982.5, 2);
+    expect(last.inactivityDrift.alice).toBeCloseTo(-12.72, 2);
+    expect(last.inactivityDrift.carol).toBeCloseTo(6.31, 2);
+
+    const { states } = replayRatings(createEloRatingModel(config), history, totals, {
+      ...options,
+      asOfDate: '2025-06-02'
+    });
+    expect(roundedRatings(states)).toEqual({
+      alice: 1035.34,
+      bob: 989.35,
+      carol: 977.74
+    });
+  });
+});
+
+describe('predictMatch', () => {
+  const buildReplay = (ratings: Record<string, number>) => ({
+    states: new Map(
+      Object.entries(ratings).map(([id, rating]) => [id, { rating, matchesPlayed: 20 }])
+    ),
+    teamStates: new Map()
+  });
+  const favourite = buildReplay({ a: 1150, b: 1000 });
+  const predict = (
+    replay: ReturnType<typeof buildReplay>,
+    format: MatchRow['match_format'],
+    teamA = ['a'],
+    teamB = ['b']
+  ) =>
+    predictMatch(replay, {
+      teamA,
+      teamB,
+      match_type: 'singles',
+      match_format: format,
+      competition_type: 'ranked'
+    });
+  const sumProbability = (outcomes: Array<{ probability: number }>) =>
+    outcomes.reduce((sum, outcome) => sum + outcome.probability, 0);
+
+  it('returns null until both sides have players', () => {
+    expect(predict(favourite, 'bo3', [], ['b'])).toBeNull();
+  });
+
+  it('uses the expected score as the match win probability in every format', () => {
+    (['bo1', 'bo3', 'bo5', 'bo7'] as const).forEach((format) => {
+      const prediction = predict(favourite, format)!;
+      const sideAWins = prediction.outcomes.filter(
+        (outcome) => outcome.sideAWins > outcome.sideBWins
+      );
+
+      expect(prediction.expectedScoreA).toBeGreaterThan(0.5);
+      expect(prediction.winProbabilityA).toBe(prediction.expectedScoreA);
+      expect(sumProbability(sideAWins)).toBeCloseTo(prediction.expectedScoreA, 9);
+      expect(sumProbability(prediction.outcomes)).toBeCloseTo(1, 9);
+    });
+  });
+
+  it('plays each game closer to even the longer the match', () => {
+    const bo1 = predict(favourite, 'bo1')!;
+    const bo5 = predict(favourite, 'bo5')!;
+
+    expect(bo1.gameWinProbabilityA).toBeCloseTo(bo1.expectedScoreA, 9);
+    expect(bo5.gameWinProbabilityA).toBeGreaterThan(0.5);
+    expect(bo5.gameWinProbabilityA).toBeLessThan(bo5.winProbabilityA);
+  });
+
+  it('is even between equal ratings', () => {
+    const prediction = predict(buildReplay({ a: 1000, b: 1000 }), 'bo5')!;
+
+    expect(prediction.winProbabilityA).toBe(0.5);
+    expect(prediction.gameWinProbabilityA).toBeCloseTo(0.5, 9);
+    const probabilities = prediction.outcomes.map((outcome) => outcome.probability);
+    probabilities.forEach((probability, index) => {
+      expect(probability).toBeCloseTo(probabilities[probabilities.length - 1 - index], 9);
+    });
+  });
+
+  it('moves ratings toward the side that wins each result', () => {
+    const prediction = predict(favourite, 'bo3')!;
+    const sweep = prediction.outcomes.find(
+      (outcome) => outcome.sideAWins === 2 && outcome.sideBWins === 0
+    )!;
+    const upset = prediction.outcomes.find(
+      (outcome) => outcome.sideAWins === 0 && outcome.sideBWins === 2
+    )!;
+
+    expect(sweep.deltas.a).toBeGreaterThan(0);
+    expect(sweep.deltas.b).toBeLessThan(0);
+    expect(upset.deltas.a).toBeLessThan(0);
+    expect(Math.abs(upset.deltas.a)).toBeGreaterThan(sweep.deltas.a);
+  });
+});
+
+describe('isInactive', () => {
+  const policy = { mode: 'exclude' as const, idleWeeks: 4, driftPerWeek: 0 };
+
+  it('excludes players idle for longer than the window', () => {
+    expect(isInactive('2025-01-06', '2025-02-03', policy)).toBe(false);
+    expect(isInactive('2025-01-06', '2025-02-04', policy)).toBe(true);
+    expect(isInactive(undefined, '2025-02-04', policy)).toBe(true);
+  });
+
+  it('only excludes in exclude mode', () => {
+    expect(isInactive('2025-01-06', '2026-01-06', { ...policy, mode: 'drift' })).toBe(false);
+    expect(isInactive(undefined, '2026-01-06', { ...policy, mode: 'off' })).toBe(false);
+  });
+});
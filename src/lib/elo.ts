@@ -1,5 +1,7 @@
 import type { GameRow, MatchFormat, MatchRow, MatchType } from './data/types';
-import { eloConfig } from '../config/eloConfig';
+import { eloConfig, type EloConfig } from '../config/eloConfig';
+import { matchConfig } from '../config/matchConfig';
+import { isRatedMatch } from './matchConfirmation';
 
 export type MatchGameTotals = {
   sideAWins: number;
@@ -9,19 +11,109 @@ export type MatchGameTotals = {
   totalGames: number;
 };
 
-type EloState = {
+export type RatingState = {
   rating: number;
   matchesPlayed: number;
 };
 
-type ScoreWeights = {
+export type RatingMatchInput<TState extends RatingState> = {
+  match: MatchRow;
+  totals: MatchGameTotals;
+  teamA: TState[];
+  teamB: TState[];
+  // Persistent pair states, only present when both sides have more than one player.
+  pairA: TState | null;
+  pairB: TState | null;
+};
+
+// A rating model owns the per-player state and how one match moves it. The replay
+// engine handles ordering, skipping unrated matches, bookkeeping and event output.
+export type RatingModel<TState extends RatingState = RatingState> = {
+  id: string;
+  baseline: number;
+  createState: () => TState;
+  applyMatch: (input: RatingMatchInput<TState>) => void;
+};
+
+export type RatingMatchEvent = {
+  match: MatchRow;
+  matchId: string;
+  teamAIds: string[];
+  teamBIds: string[];
+  preRatings: Record<string, number>;
+  preMatches: Record<string, number>;
+  postRatings: Record<string, number>;
+  deltas: Record<string, number>;
+  inactivityDrift: Record<string, number>;
+};
+
+// The engine state after the last rated match, before any `asOfDate` resets and drift.
+export type RatingReplayCheckpoint<TState extends RatingState = RatingState> = {
+  // One key per rated match in replay order, covering the row version and its game totals.
+  matchKeys: string[];
+  states: Map<string, TState>;
+  teamStates: Map<string, TState>;
+  events: RatingMatchEvent[];
+  lastMatchDates: Map<string, string>;
+  appliedResets: number;
+};
+
+export type RatingReplay<TState extends RatingState> = {
+  states: Map<string, TState>;
+  teamStates: Map<string, TState>;
+  events: RatingMatchEvent[];
+  lastMatchDates: Map<string, string>;
+  checkpoint: RatingReplayCheckpoint<TState>;
+};
+
+export type InactivityPolicy = {
+  mode: 'off' | 'drift' | 'exclude';
+  idleWeeks: number;
+  driftPerWeek: number;
+};
+
+// Singles and doubles are rated as independent ladders; 'combined' rates every match
+// on a single ladder.
+export type RatingLadder = MatchType | 'combined';
+
+// A season soft reset: every rating keeps `1 - regression` of its distance from the
+// model baseline. Applied before the first match on or after `date`.
+export type RatingReset = {
+  date: string;
+  regression: number;
+};
+
+export type ReplayOptions = {
+  seedPlayerIds?: string[];
+  ladder?: RatingLadder;
+  inactivity?: InactivityPolicy;
+  resets?: RatingReset[];
+  // Which matches move ratings. Defaults to confirmed matches, including pending ones
+  // whose confirmation window has passed.
+  isRated?: (match: MatchRow) => boolean;
+  // When set, inactivity drift is also applied from each player's last match up to
+  // this date so the returned states reflect "today" rather than the last match.
+  asOfDate?: string;
+  // The checkpoint of an earlier replay with the same model and options. When its matches
+  // are still the first rated ones, unchanged, only the matches after them are applied.
+  resumeFrom?: RatingReplayCheckpoint;
+};
+
+export type MatchMultipliers = {
+  formatWeight: number;
+  doublesMultiplier: number;
+  tournamentMultiplier: number;
+};
+
+export type ScoreWeights = {
   outcome: number;
   games: number;
   points: number;
   total: number;
 };
 
-const compareMatches = (a: MatchRow, b: MatchRow) => {
+// Deterministic replay order: match date, then creation time, then id.
+export const compareMatches = (a: MatchRow, b: MatchRow) => {
   if (a.match_date !== b.match_date) {
     return a.match_date < b.match_date ? -1 : 1;
   }
@@ -34,36 +126,124 @@ const compareMatches = (a: MatchRow, b: MatchRow) => {
   return a.id < b.id ? -1 : 1;
 };
 
-const resolveFormatWeight = (format: MatchFormat, matchType: MatchType) => {
-  const weightMap =
-    matchType === 'doubles' ? eloConfig.doublesFormatWeights : eloConfig.formatWeights;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const toDayNumber = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.floor(Date.UTC(year, (month ?? 1) - 1, day ?? 1) / MS_PER_DAY);
+};
+
+const daysBetween = (from: string, to: string) => toDayNumber(to) - toDayNumber(from);
+
+export const isInactive = (
+  lastMatchDate: string | undefined,
+  asOfDate: string,
+  policy: InactivityPolicy = eloConfig.inactivity
+) => {
+  if (policy.mode !== 'exclude') {
+    return false;
+  }
+  if (!lastMatchDate) {
+    return true;
+  }
+  return daysBetween(lastMatchDate, asOfDate) > Math.max(0, policy.idleWeeks) * 7;
+};
+
+// Moves a rating toward the baseline for every full idle week past the grace period.
+// Only dates are used, so replays stay deterministic for a given match history.
+const applyInactivityDrift = (
+  rating: number,
+  baseline: number,
+  lastMatchDate: string,
+  date: string,
+  policy: InactivityPolicy
+) => {
+  if (policy.mode !== 'drift') {
+    return rating;
+  }
+  const rate = Math.min(1, Math.max(0, policy.driftPerWeek));
+  const driftWeeks = Math.floor(daysBetween(lastMatchDate, date) / 7) - Math.max(0, policy.idleWeeks);
+  if (driftWeeks <= 0 || rate <= 0) {
+    return rating;
+  }
+  return baseline + (rating - baseline) * Math.pow(1 - rate, driftWeeks);
+};
+
+export const buildTeamKey = (ids: string[]) => ids.slice().sort().join('|');
+
+// Order-independent key for a meeting between two sides.
+export const buildPairingKey = (teamA: string[], teamB: string[]) =>
+  [buildTeamKey(teamA), buildTeamKey(teamB)].sort().join('~');
+
+export const filterLadderMatches = (matches: MatchRow[], ladder: RatingLadder) =>
+  ladder === 'combined' ? matches : matches.filter((match) => match.match_type === ladder);
+
+const resolveFormatWeight = (format: MatchFormat, matchType: MatchType, config: EloConfig) => {
+  const weightMap = matchType === 'doubles' ? config.doublesFormatWeights : config.formatWeights;
   const weight = weightMap[format];
   return Number.isFinite(weight) && weight > 0 ? weight : 1;
 };
 
-const resolveScale = () => (eloConfig.scale > 0 ? eloConfig.scale : 400);
-
-const resolveK = () => (eloConfig.kFactor > 0 ? eloConfig.kFactor : 24);
+const resolveMultiplier = (value: number) => (Number.isFinite(value) && value > 0 ? value : 1);
+
+type MatchRatingContext = Pick<MatchRow, 'match_format' | 'match_type' | 'competition_type'>;
+
+export const resolveMatchMultipliers = (
+  match: MatchRatingContext,
+  config: EloConfig = eloConfig
+): MatchMultipliers => ({
+  formatWeight: resolveFormatWeight(match.match_format, match.match_type, config),
+  doublesMultiplier:
+    match.match_type === 'doubles' ? resolveMultiplier(config.doublesMultiplier) : 1,
+  tournamentMultiplier:
+    match.competition_type === 'tournament' ? resolveMultiplier(config.tournamentMultiplier) : 1
+});
+
+const resolveScale = (config: EloConfig) => (config.scale > 0 ? config.scale : 400);
+
+const resolveK = (config: EloConfig) => (config.kFactor > 0 ? config.kFactor : 24);
+
+const resolveProvisionalMatches = (config: EloConfig) =>
+  config.provisional.matches > 0 ? Math.floor(config.provisional.matches) : 0;
+
+export const isProvisionalRating = (matchesPlayed: number, config: EloConfig = eloConfig) =>
+  matchesPlayed < resolveProvisionalMatches(config);
+
+// Provisional players start at base K * multiplier and decay linearly to base K
+// by the time they reach the provisional match count.
+const resolvePlayerK = (matchesPlayed: number, config: EloConfig) => {
+  const provisionalMatches = resolveProvisionalMatches(config);
+  const multiplier = config.provisional.kMultiplier;
+  if (
+    !isProvisionalRating(matchesPlayed, config) ||
+    !Number.isFinite(multiplier) ||
+    multiplier <= 1
+  ) {
+    return resolveK(config);
+  }
+  const remaining = 1 - matchesPlayed / provisionalMatches;
+  return resolveK(config) * (1 + (multiplier - 1) * remaining);
+};
 
-const expectedScore = (rating: number, opponentRating: number) => {
-  const scale = resolveScale();
+const expectedScore = (rating: number, opponentRating: number, config: EloConfig) => {
+  const scale = resolveScale(config);
   return 1 / (1 + Math.pow(10, (opponentRating - rating) / scale));
 };
 
 const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
 
-const resolveScoreWeights = (): ScoreWeights => {
+export const resolveScoreWeights = (config: EloConfig = eloConfig): ScoreWeights => {
   const outcome =
-    Number.isFinite(eloConfig.scoreWeights.outcome) && eloConfig.scoreWeights.outcome > 0
-      ? eloConfig.scoreWeights.outcome
+    Number.isFinite(config.scoreWeights.outcome) && config.scoreWeights.outcome > 0
+      ? config.scoreWeights.outcome
       : 0;
   const games =
-    Number.isFinite(eloConfig.scoreWeights.games) && eloConfig.scoreWeights.games > 0
-      ? eloConfig.scoreWeights.games
+    Number.isFinite(config.scoreWeights.games) && config.scoreWeights.games > 0
+      ? config.scoreWeights.games
       : 0;
   const points =
-    Number.isFinite(eloConfig.scoreWeights.points) && eloConfig.scoreWeights.points > 0
-      ? eloConfig.scoreWeights.points
+    Number.isFinite(config.scoreWeights.points) && config.scoreWeights.points > 0
+      ? config.scoreWeights.points
       : 0;
   const total = outcome + games + points;
   if (total <= 0) {
@@ -72,7 +252,7 @@ const resolveScoreWeights = (): ScoreWeights => {
   return { outcome, games, points, total };
 };
 
-const resolveMatchScore = (totals: MatchGameTotals, weights: ScoreWeights) => {
+export const resolveMatchScore = (totals: MatchGameTotals, weights: ScoreWeights) => {
   const outcomeScore =
     totals.sideAWins === totals.sideBWins ? 0.5 : totals.sideAWins > totals.sideBWins ? 1 : 0;
   const gameScore = totals.totalGames > 0 ? totals.sideAWins / totals.totalGames : 0.5;
@@ -122,128 +302,210 @@ export const buildMatchGameTotals = (matches: MatchRow[], games: GameRow[]) => {
   return totalsByMatch;
 };
 
-export const calculateEloRatings = (
-  matches: MatchRow[],
-  matchTotals: Map<string, MatchGameTotals>,
-  seedPlayerIds: string[] = []
-) => {
-  const states = new Map<string, EloState>();
-  const scoreWeights = resolveScoreWeights();
+const averageRating = (states: RatingState[]) =>
+  states.reduce((sum, state) => sum + state.rating, 0) / states.length;
 
-  const ensureState = (playerId: string) => {
-    const existing = states.get(playerId);
-    if (existing) {
-      return existing;
-    }
-    const state = {
-      rating: eloConfig.baseline,
-      matchesPlayed: 0,
-    };
-    states.set(playerId, state);
-    return state;
-  };
-
-  seedPlayerIds.forEach((playerId) => {
-    ensureState(playerId);
-  });
-
-  const orderedMatches = [...matches].sort(compareMatches);
-
-  orderedMatches.forEach((match) => {
-    const totals = matchTotals.get(match.id);
-    if (!totals || totals.totalGames <= 0) {
-      return;
-    }
+const resolveTeamBlend = (config: EloConfig) => {
+  const blend = config.teamRatingBlend;
+  return Number.isFinite(blend) ? Math.min(1, Math.max(0, blend)) : 0;
+};
 
-    const teamA = match.team_a ?? [];
-    const teamB = match.team_b ?? [];
-    if (!teamA.length || !teamB.length) {
-      return;
-    }
+// Hybrid doubles: the side's strength blends the pair rating with the members' average.
+const resolveSideRating = (states: RatingState[], pair: RatingState | null, config: EloConfig) => {
+  const individual = averageRating(states);
+  const blend = resolveTeamBlend(config);
+  if (!pair || blend <= 0) {
+    return individual;
+  }
+  return blend * pair.rating + (1 - blend) * individual;
+};
 
-    const teamAStates = teamA.map((playerId) => ({
-      id: playerId,
-      state: ensureState(playerId)
-    }));
-    const teamBStates = teamB.map((playerId) => ({
-      id: playerId,
-      state: ensureState(playerId)
-    }));
-
-    const teamARating =
-      teamAStates.reduce((sum, entry) => sum + entry.state.rating, 0) / teamAStates.length;
-    const teamBRating =
-      teamBStates.reduce((sum, entry) => sum + entry.state.rating, 0) / teamBStates.length;
-
-    const scoreA = resolveMatchScore(totals, scoreWeights);
-    const scoreB = 1 - scoreA;
-    const expectedA = expectedScore(teamARating, teamBRating);
-    const expectedB = 1 - expectedA;
-    const formatWeight = resolveFormatWeight(match.match_format, match.match_type);
-    const doublesMultiplier = match.match_type === 'doubles' ? eloConfig.doublesMultiplier : 1;
-
-    const teamAK = resolveK() * formatWeight * doublesMultiplier;
-    const teamBK = resolveK() * formatWeight * doublesMultiplier;
-
-    const deltaA = teamAK * (scoreA - expectedA);
-    const deltaB = teamBK * (scoreB - expectedB);
-
-    teamAStates.forEach(({ state }) => {
-      state.rating = Math.max(eloConfig.floor, state.rating + deltaA);
-      state.matchesPlayed += 1;
-    });
-    teamBStates.forEach(({ state }) => {
-      state.rating = Math.max(eloConfig.floor, state.rating + deltaB);
-      state.matchesPlayed += 1;
-    });
+type RatingSides = Pick<RatingMatchInput<RatingState>, 'teamA' | 'teamB' | 'pairA' | 'pairB'>;
+
+// Side A's expected score before the match, including the hybrid doubles blend.
+export const resolveExpectedScore = (
+  { teamA, teamB, pairA, pairB }: RatingSides,
+  config: EloConfig = eloConfig
+) =>
+  expectedScore(
+    resolveSideRating(teamA, pairA, config),
+    resolveSideRating(teamB, pairB, config),
+    config
+  );
+
+const applyEloMatch = (
+  match: MatchRatingContext,
+  totals: MatchGameTotals,
+  teamA: RatingState[],
+  teamB: RatingState[],
+  pairA: RatingState | null,
+  pairB: RatingState | null,
+  config: EloConfig
+) => {
+  const scoreA = resolveMatchScore(totals, resolveScoreWeights(config));
+  const scoreB = 1 - scoreA;
+  const expectedA = resolveExpectedScore({ teamA, teamB, pairA, pairB }, config);
+  const expectedB = 1 - expectedA;
+  const { formatWeight, doublesMultiplier, tournamentMultiplier } = resolveMatchMultipliers(
+    match,
+    config
+  );
+  const matchWeight = formatWeight * doublesMultiplier * tournamentMultiplier;
+
+  teamA.forEach((state) => {
+    const delta = resolvePlayerK(state.matchesPlayed, config) * matchWeight * (scoreA - expectedA);
+    state.rating = Math.max(config.floor, state.rating + delta);
   });
-
-  const ratings = new Map<string, number>();
-  states.forEach((state, playerId) => {
-    ratings.set(playerId, state.rating);
+  teamB.forEach((state) => {
+    const delta = resolvePlayerK(state.matchesPlayed, config) * matchWeight * (scoreB - expectedB);
+    state.rating = Math.max(config.floor, state.rating + delta);
   });
 
-  return ratings;
+  if (pairA && pairB) {
+    const pairExpectedA = expectedScore(pairA.rating, pairB.rating, config);
+    const pairDeltaA =
+      resolvePlayerK(pairA.matchesPlayed, config) * matchWeight * (scoreA - pairExpectedA);
+    const pairDeltaB =
+      resolvePlayerK(pairB.matchesPlayed, config) * matchWeight * (scoreB - (1 - pairExpectedA));
+    pairA.rating = Math.max(config.floor, pairA.rating + pairDeltaA);
+    pairB.rating = Math.max(config.floor, pairB.rating + pairDeltaB);
+  }
 };
 
-export type EloMatchState = {
-  matchId: string;
-  teamAIds: string[];
-  teamBIds: string[];
-  preRatings: Record<string, number>;
-  preMatches: Record<string, number>;
-  postRatings: Record<string, number>;
+// Builds an Elo model bound to a specific config, so alternative settings can be
+// replayed side by side without touching the env-driven defaults.
+export const createEloRatingModel = (config: EloConfig): RatingModel => ({
+  id: 'elo',
+  baseline: config.baseline,
+  createState: () => ({
+    rating: config.baseline,
+    matchesPlayed: 0
+  }),
+  applyMatch: ({ match, totals, teamA, teamB, pairA, pairB }) => {
+    applyEloMatch(match, totals, teamA, teamB, pairA, pairB, config);
+  }
+});
+
+export const eloRatingModel = createEloRatingModel(eloConfig);
+
+// Edits, confirmations and corrected games all change the key, so a checkpoint is only
+// reused while the matches behind it are exactly as they were.
+const buildReplayMatchKey = (match: MatchRow, totals: MatchGameTotals | undefined) =>
+  [
+    match.id,
+    match.status,
+    match.updated_at ?? '',
+    totals
+      ? [
+          totals.sideAWins,
+          totals.sideBWins,
+          totals.sideAPoints,
+          totals.sideBPoints,
+          totals.totalGames
+        ].join(':')
+      : ''
+  ].join('|');
+
+// States are mutated in place during a replay, so checkpoints hold their own copies.
+const copyStates = <TState extends RatingState>(
+  source: Map<string, TState>,
+  target: Map<string, TState>
+) => {
+  source.forEach((state, id) => {
+    target.set(id, { ...state });
+  });
+  return target;
 };
 
-export const calculateEloMatchStates = (
+export const replayRatings = <TState extends RatingState>(
+  model: RatingModel<TState>,
   matches: MatchRow[],
   matchTotals: Map<string, MatchGameTotals>,
-  seedPlayerIds: string[] = []
-): EloMatchState[] => {
-  const states = new Map<string, EloState>();
-  const entries: EloMatchState[] = [];
-  const scoreWeights = resolveScoreWeights();
+  options: ReplayOptions = {}
+): RatingReplay<TState> => {
+  const states = new Map<string, TState>();
+  const teamStates = new Map<string, TState>();
+  const events: RatingMatchEvent[] = [];
+  const lastMatchDates = new Map<string, string>();
+  const inactivity = options.inactivity ?? eloConfig.inactivity;
 
   const ensureState = (playerId: string) => {
     const existing = states.get(playerId);
     if (existing) {
       return existing;
     }
-    const state = {
-      rating: eloConfig.baseline,
-      matchesPlayed: 0,
-    };
+    const state = model.createState();
     states.set(playerId, state);
     return state;
   };
 
-  seedPlayerIds.forEach((playerId) => {
+  const ensureTeamState = (playerIds: string[]) => {
+    const key = buildTeamKey(playerIds);
+    const existing = teamStates.get(key);
+    if (existing) {
+      return existing;
+    }
+    const state = model.createState();
+    teamStates.set(key, state);
+    return state;
+  };
+
+  const driftTo = (playerId: string, state: TState, date: string) => {
+    const lastMatchDate = lastMatchDates.get(playerId);
+    if (!lastMatchDate) {
+      return 0;
+    }
+    const next = applyInactivityDrift(state.rating, model.baseline, lastMatchDate, date, inactivity);
+    const drift = next - state.rating;
+    state.rating = next;
+    return drift;
+  };
+
+  const resets = [...(options.resets ?? [])].sort((a, b) => (a.date < b.date ? -1 : 1));
+  let nextReset = 0;
+  const applyResetsThrough = (date: string) => {
+    while (nextReset < resets.length && resets[nextReset].date <= date) {
+      const keep = 1 - clamp01(resets[nextReset].regression);
+      const regress = (state: TState) => {
+        state.rating = model.baseline + (state.rating - model.baseline) * keep;
+      };
+      states.forEach(regress);
+      teamStates.forEach(regress);
+      nextReset += 1;
+    }
+  };
+
+  const ratedAt = new Date();
+  const isRated =
+    options.isRated ??
+    ((match: MatchRow) => isRatedMatch(match, ratedAt, matchConfig.autoConfirmHours));
+  const ladderMatches = options.ladder ? filterLadderMatches(matches, options.ladder) : matches;
+  const orderedMatches = ladderMatches.filter(isRated).sort(compareMatches);
+  const matchKeys = orderedMatches.map((match) =>
+    buildReplayMatchKey(match, matchTotals.get(match.id))
+  );
+
+  const resumeFrom = options.resumeFrom;
+  const canResume =
+    resumeFrom &&
+    resumeFrom.matchKeys.length <= matchKeys.length &&
+    resumeFrom.matchKeys.every((key, index) => key === matchKeys[index]);
+  const resumeIndex = canResume ? resumeFrom.matchKeys.length : 0;
+  if (canResume) {
+    copyStates(resumeFrom.states as Map<string, TState>, states);
+    copyStates(resumeFrom.teamStates as Map<string, TState>, teamStates);
+    resumeFrom.lastMatchDates.forEach((date, playerId) => lastMatchDates.set(playerId, date));
+    events.push(...resumeFrom.events);
+    nextReset = resumeFrom.appliedResets;
+  }
+
+  (options.seedPlayerIds ?? []).forEach((playerId) => {
     ensureState(playerId);
   });
 
-  const orderedMatches = [...matches].sort(compareMatches);
+  orderedMatches.slice(resumeIndex).forEach((match) => {
+    applyResetsThrough(match.match_date);
 
-  orderedMatches.forEach((match) => {
     const totals = matchTotals.get(match.id);
     if (!totals || totals.totalGames <= 0) {
       return;
@@ -255,155 +517,231 @@ export const calculateEloMatchStates = (
       return;
     }
 
-    const teamAStates = teamA.map((playerId) => ({
-      id: playerId,
-      state: ensureState(playerId)
-    }));
-    const teamBStates = teamB.map((playerId) => ({
-      id: playerId,
-      state: ensureState(playerId)
-    }));
-
+    const participants = [...teamA, ...teamB];
     const preRatings: Record<string, number> = {};
     const preMatches: Record<string, number> = {};
-    teamAStates.forEach(({ id, state }) => {
-      preRatings[id] = state.rating;
-      preMatches[id] = state.matchesPlayed;
-    });
-    teamBStates.forEach(({ id, state }) => {
-      preRatings[id] = state.rating;
-      preMatches[id] = state.matchesPlayed;
+    const inactivityDrift: Record<string, number> = {};
+    participants.forEach((playerId) => {
+      const state = ensureState(playerId);
+      inactivityDrift[playerId] = driftTo(playerId, state, match.match_date);
+      preRatings[playerId] = state.rating;
+      preMatches[playerId] = state.matchesPlayed;
     });
 
-    const teamARating =
-      teamAStates.reduce((sum, entry) => sum + entry.state.rating, 0) / teamAStates.length;
-    const teamBRating =
-      teamBStates.reduce((sum, entry) => sum + entry.state.rating, 0) / teamBStates.length;
-
-    const scoreA = resolveMatchScore(totals, scoreWeights);
-    const scoreB = 1 - scoreA;
-    const expectedA = expectedScore(teamARating, teamBRating);
-    const expectedB = 1 - expectedA;
-    const formatWeight = resolveFormatWeight(match.match_format, match.match_type);
-    const doublesMultiplier = match.match_type === 'doubles' ? eloConfig.doublesMultiplier : 1;
-
-    const teamAK = resolveK() * formatWeight * doublesMultiplier;
-    const teamBK = resolveK() * formatWeight * doublesMultiplier;
+    const isPairMatch = teamA.length > 1 && teamB.length > 1;
+    const pairA = isPairMatch ? ensureTeamState(teamA) : null;
+    const pairB = isPairMatch ? ensureTeamState(teamB) : null;
+
+    model.applyMatch({
+      match,
+      totals,
+      teamA: teamA.map(ensureState),
+      teamB: teamB.map(ensureState),
+      pairA,
+      pairB
+    });
 
-    const deltaA = teamAK * (scoreA - expectedA);
-    const deltaB = teamBK * (scoreB - expectedB);
+    if (pairA && pairB) {
+      pairA.matchesPlayed += 1;
+      pairB.matchesPlayed += 1;
+    }
 
     const postRatings: Record<string, number> = {};
-
-    teamAStates.forEach(({ id, state }) => {
-      const next = Math.max(eloConfig.floor, state.rating + deltaA);
-      postRatings[id] = next;
-      state.rating = next;
-      state.matchesPlayed += 1;
-    });
-    teamBStates.forEach(({ id, state }) => {
-      const next = Math.max(eloConfig.floor, state.rating + deltaB);
-      postRatings[id] = next;
-      state.rating = next;
+    const deltas: Record<string, number> = {};
+    participants.forEach((playerId) => {
+      const state = ensureState(playerId);
       state.matchesPlayed += 1;
+      postRatings[playerId] = state.rating;
+      deltas[playerId] = state.rating - preRatings[playerId];
+      lastMatchDates.set(playerId, match.match_date);
     });
 
-    entries.push({
+    events.push({
+      match,
       matchId: match.id,
       teamAIds: teamA,
       teamBIds: teamB,
       preRatings,
       preMatches,
-      postRatings
+      postRatings,
+      deltas,
+      inactivityDrift
     });
   });
 
-  return entries;
+  const checkpoint: RatingReplayCheckpoint<TState> = {
+    matchKeys,
+    states: copyStates(states, new Map()),
+    teamStates: copyStates(teamStates, new Map()),
+    events: [...events],
+    lastMatchDates: new Map(lastMatchDates),
+    appliedResets: nextReset
+  };
+
+  const asOfDate = options.asOfDate;
+  if (asOfDate) {
+    applyResetsThrough(asOfDate);
+    states.forEach((state, playerId) => {
+      driftTo(playerId, state, asOfDate);
+    });
+  }
+
+  return { states, teamStates, events, lastMatchDates, checkpoint };
 };
 
-export const calculateEloDeltasForPlayer = (
-  matches: MatchRow[],
-  matchTotals: Map<string, MatchGameTotals>,
-  playerId: string,
-  seedPlayerIds: string[] = []
-) => {
-  const states = new Map<string, EloState>();
-  const deltas = new Map<string, number>();
-  const scoreWeights = resolveScoreWeights();
+export type PredictedOutcome = {
+  sideAWins: number;
+  sideBWins: number;
+  probability: number;
+  // Elo change per player id if the match ends with this result.
+  deltas: Record<string, number>;
+};
 
-  const ensureState = (id: string) => {
-    const existing = states.get(id);
-    if (existing) {
-      return existing;
-    }
-    const state = {
-      rating: eloConfig.baseline,
-      matchesPlayed: 0,
-    };
-    states.set(id, state);
-    return state;
-  };
+export type MatchPrediction = {
+  expectedScoreA: number;
+  // The expected score read as the chance side A wins the match, the same way the
+  // calibration report scores it.
+  winProbabilityA: number;
+  // Per-game chance that reproduces winProbabilityA over the match format.
+  gameWinProbabilityA: number;
+  outcomes: PredictedOutcome[];
+};
 
-  seedPlayerIds.forEach((id) => {
-    ensureState(id);
-  });
+export type MatchPredictionInput = MatchRatingContext & {
+  teamA: string[];
+  teamB: string[];
+};
 
-  if (playerId) {
-    ensureState(playerId);
+const GAMES_BY_FORMAT: Record<MatchFormat, number> = {
+  bo1: 1,
+  bo3: 3,
+  bo5: 5,
+  bo7: 7
+};
+
+// Points are unknown before the match, so each hypothetical game is scored 11-8.
+const PREDICTED_WINNER_POINTS = 11;
+const PREDICTED_LOSER_POINTS = 8;
+
+const binomial = (n: number, k: number) => {
+  let result = 1;
+  for (let i = 1; i <= k; i += 1) {
+    result = (result * (n - k + i)) / i;
   }
+  return result;
+};
 
-  const orderedMatches = [...matches].sort(compareMatches);
+// Probability that a best-of series ends exactly winnerWins-loserWins, treating every
+// game as an independent trial the winner takes with probability p.
+const seriesProbability = (p: number, winnerWins: number, loserWins: number) =>
+  binomial(winnerWins - 1 + loserWins, loserWins) *
+  Math.pow(p, winnerWins) *
+  Math.pow(1 - p, loserWins);
+
+const seriesWinProbability = (p: number, neededWins: number) => {
+  let total = 0;
+  for (let loserWins = 0; loserWins < neededWins; loserWins += 1) {
+    total += seriesProbability(p, neededWins, loserWins);
+  }
+  return total;
+};
 
-  orderedMatches.forEach((match) => {
-    const totals = matchTotals.get(match.id);
-    if (!totals || totals.totalGames <= 0) {
-      return;
+// Inverts seriesWinProbability by bisection. Series odds rise with p, so 50 halvings
+// settle the per-game probability well past display precision.
+const resolveGameWinProbability = (matchProbability: number, neededWins: number) => {
+  let low = 0;
+  let high = 1;
+  for (let step = 0; step < 50; step += 1) {
+    const mid = (low + high) / 2;
+    if (seriesWinProbability(mid, neededWins) < matchProbability) {
+      low = mid;
+    } else {
+      high = mid;
     }
+  }
+  return (low + high) / 2;
+};
 
-    const teamA = match.team_a ?? [];
-    const teamB = match.team_b ?? [];
-    if (!teamA.length || !teamB.length) {
-      return;
-    }
+const buildPredictedTotals = (sideAWins: number, sideBWins: number): MatchGameTotals => ({
+  sideAWins,
+  sideBWins,
+  sideAPoints: sideAWins * PREDICTED_WINNER_POINTS + sideBWins * PREDICTED_LOSER_POINTS,
+  sideBPoints: sideBWins * PREDICTED_WINNER_POINTS + sideAWins * PREDICTED_LOSER_POINTS,
+  totalGames: sideAWins + sideBWins
+});
+
+// Previews every possible result of an upcoming match against the current ratings in
+// a replay. The expected score is side A's chance of winning the match; each result's
+// probability comes from the per-game chance that gives the same match odds.
+export const predictMatch = (
+  replay: Pick<RatingReplay<RatingState>, 'states' | 'teamStates'>,
+  input: MatchPredictionInput
+): MatchPrediction | null => {
+  if (!input.teamA.length || !input.teamB.length) {
+    return null;
+  }
 
-    const teamAStates = teamA.map((id) => ({ id, state: ensureState(id) }));
-    const teamBStates = teamB.map((id) => ({ id, state: ensureState(id) }));
-
-    const teamARating =
-      teamAStates.reduce((sum, entry) => sum + entry.state.rating, 0) / teamAStates.length;
-    const teamBRating =
-      teamBStates.reduce((sum, entry) => sum + entry.state.rating, 0) / teamBStates.length;
-
-    const scoreA = resolveMatchScore(totals, scoreWeights);
-    const scoreB = 1 - scoreA;
-    const expectedA = expectedScore(teamARating, teamBRating);
-    const expectedB = 1 - expectedA;
-    const formatWeight = resolveFormatWeight(match.match_format, match.match_type);
-    const doublesMultiplier = match.match_type === 'doubles' ? eloConfig.doublesMultiplier : 1;
-
-    const teamAK = resolveK() * formatWeight * doublesMultiplier;
-    const teamBK = resolveK() * formatWeight * doublesMultiplier;
-
-    const deltaA = teamAK * (scoreA - expectedA);
-    const deltaB = teamBK * (scoreB - expectedB);
-
-    teamAStates.forEach(({ id, state }) => {
-      const next = Math.max(eloConfig.floor, state.rating + deltaA);
-      if (id === playerId) {
-        deltas.set(match.id, next - state.rating);
-      }
-      state.rating = next;
-      state.matchesPlayed += 1;
+  const copyState = (state: RatingState | undefined): RatingState =>
+    state ? { ...state } : eloRatingModel.createState();
+  const isPairMatch = input.teamA.length > 1 && input.teamB.length > 1;
+  const teamA = input.teamA.map((id) => copyState(replay.states.get(id)));
+  const teamB = input.teamB.map((id) => copyState(replay.states.get(id)));
+  const pairA = isPairMatch ? copyState(replay.teamStates.get(buildTeamKey(input.teamA))) : null;
+  const pairB = isPairMatch ? copyState(replay.teamStates.get(buildTeamKey(input.teamB))) : null;
+
+  const expectedScoreA = resolveExpectedScore({ teamA, teamB, pairA, pairB });
+  const neededWins = Math.floor(GAMES_BY_FORMAT[input.match_format] / 2) + 1;
+
+  const outcomes: PredictedOutcome[] = [];
+  const addOutcome = (sideAWins: number, sideBWins: number, probability: number) => {
+    const nextA = teamA.map((state) => ({ ...state }));
+    const nextB = teamB.map((state) => ({ ...state }));
+    applyEloMatch(
+      input,
+      buildPredictedTotals(sideAWins, sideBWins),
+      nextA,
+      nextB,
+      pairA ? { ...pairA } : null,
+      pairB ? { ...pairB } : null,
+      eloConfig
+    );
+    const deltas: Record<string, number> = {};
+    input.teamA.forEach((id, index) => {
+      deltas[id] = nextA[index].rating - teamA[index].rating;
     });
-
-    teamBStates.forEach(({ id, state }) => {
-      const next = Math.max(eloConfig.floor, state.rating + deltaB);
-      if (id === playerId) {
-        deltas.set(match.id, next - state.rating);
-      }
-      state.rating = next;
-      state.matchesPlayed += 1;
+    input.teamB.forEach((id, index) => {
+      deltas[id] = nextB[index].rating - teamB[index].rating;
     });
+    outcomes.push({ sideAWins, sideBWins, probability, deltas });
+  };
+
+  const gameWinProbabilityA = resolveGameWinProbability(expectedScoreA, neededWins);
+  for (let loserWins = 0; loserWins < neededWins; loserWins += 1) {
+    addOutcome(
+      neededWins,
+      loserWins,
+      seriesProbability(gameWinProbabilityA, neededWins, loserWins)
+    );
+  }
+  for (let loserWins = neededWins - 1; loserWins >= 0; loserWins -= 1) {
+    addOutcome(
+      loserWins,
+      neededWins,
+      seriesProbability(1 - gameWinProbabilityA, neededWins, loserWins)
+    );
+  }
+
+  return { expectedScoreA, winProbabilityA: expectedScoreA, gameWinProbabilityA, outcomes };
+};
+
+// Each match's rating change for one player, keyed by match id.
+export const buildPlayerDeltas = (events: RatingMatchEvent[], playerId: string) => {
+  const deltas = new Map<string, number>();
+  events.forEach((event) => {
+    const delta = event.deltas[playerId];
+    if (delta !== undefined) {
+      deltas.set(event.matchId, delta);
+    }
   });
 
   return deltas;
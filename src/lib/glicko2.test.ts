@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMatchGameTotals,
+  replayRatings,
+  resolveMatchScore,
+  resolveScoreWeights
+} from './elo';
+import {
+  glickoRatingModel,
+  projectGlickoDeviation,
+  rateGlickoPeriod,
+  resolveRatingPeriod
+} from './glicko2';
+import {
+  buildGames,
+  buildMatch,
+  singlesGames,
+  singlesHistory,
+  testEloConfig
+} from './__fixtures__/matchHistory';
+import type { MatchRow } from './data/types';
+
+// Relies on the default tau (0.5) and initial deviation (350), as in Glickman's paper.
+const replayGlicko = (matches: MatchRow[]) =>
+  replayRatings(
+    glickoRatingModel,
+    matches,
+    buildMatchGameTotals(
+      matches,
+      matches.flatMap((match) => buildGames(match.id, [[11, 5]]))
+    ),
+    { inactivity: testEloConfig.inactivity }
+  );
+
+describe('rateGlickoPeriod', () => {
+  it("matches Glickman's worked example", () => {
+    const next = rateGlickoPeriod({ rating: 1500, deviation: 200, volatility: 0.06 }, [
+      { rating: 1400, deviation: 30, score: 1 },
+      { rating: 1550, deviation: 100, score: 0 },
+      { rating: 1700, deviation: 300, score: 0 }
+    ]);
+
+    expect(next.rating).toBeCloseTo(1464.06, 1);
+    expect(next.deviation).toBeCloseTo(151.52, 1);
+    expect(next.volatility).toBeCloseTo(0.05999, 4);
+  });
+});
+
+describe('glickoRatingModel', () => {
+  it('matches the golden ratings for the singles fixture', () => {
+    const { states } = replayRatings(
+      glickoRatingModel,
+      singlesHistory,
+      buildMatchGameTotals(singlesHistory, singlesGames),
+      { inactivity: testEloConfig.inactivity }
+    );
+    const rounded = Object.fromEntries(
+      Array.from(states.entries()).map(([id, state]) => [
+        id,
+        [Number(state.rating.toFixed(2)), Number(state.deviation.toFixed(2))]
+      ])
+    );
+
+    expect(rounded).toEqual({
+      alice: [1652.25, 228.97],
+      bob: [1392.42, 206.6],
+      carol: [1413.53, 221.58]
+    });
+  });
+
+  it('moves the winner up and shrinks both deviations', () => {
+    const { states } = replayGlicko([buildMatch('m1', ['a'], ['b'])]);
+
+    expect(states.get('a')!.rating).toBeGreaterThan(1500);
+    expect(states.get('b')!.rating).toBeLessThan(1500);
+    expect(states.get('a')!.deviation).toBeLessThan(350);
+    expect(states.get('a')!.rating - 1500).toBeCloseTo(1500 - states.get('b')!.rating, 6);
+  });
+
+  it('grows the deviation once per period, not once per match', () => {
+    const first = buildMatch('m1', ['a'], ['b'], { match_date: '2025-01-06' });
+    const samePeriod = replayGlicko([
+      first,
+      buildMatch('m2', ['a'], ['b'], { match_date: '2025-01-07' })
+    ]);
+    const nextPeriod = replayGlicko([
+      first,
+      buildMatch('m2', ['a'], ['b'], { match_date: '2025-01-13' })
+    ]);
+
+    expect(resolveRatingPeriod('2025-01-06')).toBe(resolveRatingPeriod('2025-01-07'));
+    expect(resolveRatingPeriod('2025-01-13')).toBe(resolveRatingPeriod('2025-01-06') + 1);
+    expect(samePeriod.states.get('a')!.deviation).toBeLessThan(
+      nextPeriod.states.get('a')!.deviation
+    );
+  });
+
+  it('grows idle deviation with the volatility from before the next match', () => {
+    const first = buildMatch('m1', ['a'], ['b'], { match_date: '2025-01-06' });
+    const returning = buildMatch('m2', ['a'], ['b'], { match_date: '2025-03-03' });
+    const { states } = replayGlicko([first]);
+    const a = states.get('a')!;
+    const b = states.get('b')!;
+    const score = resolveMatchScore(
+      buildMatchGameTotals([returning], buildGames('m2', [[11, 5]])).get('m2')!,
+      resolveScoreWeights()
+    );
+
+    // Idle periods end with the one before the match; that match's own period grows
+    // the deviation with the newly solved volatility.
+    const expected = rateGlickoPeriod(
+      { ...a, deviation: projectGlickoDeviation(a, '2025-02-24') },
+      [{ rating: b.rating, deviation: projectGlickoDeviation(b, '2025-02-24'), score }]
+    );
+    const replayed = replayGlicko([first, returning]).states.get('a')!;
+
+    expect(resolveRatingPeriod('2025-02-24')).toBe(resolveRatingPeriod('2025-03-03') - 1);
+    expect(replayed.rating).toBeCloseTo(expected.rating, 6);
+    expect(replayed.deviation).toBeCloseTo(expected.deviation, 6);
+  });
+});
+
+describe('projectGlickoDeviation', () => {
+  it('grows with idle periods up to the unrated deviation', () => {
+    const state = replayGlicko([
+      buildMatch('m1', ['a'], ['b'], { match_date: '2025-01-06' })
+    ]).states.get('a')!;
+
+    expect(projectGlickoDeviation(state, '2025-01-08')).toBe(state.deviation);
+    expect(projectGlickoDeviation(state, '2025-03-03')).toBeGreaterThan(state.deviation);
+    expect(projectGlickoDeviation(state, '2040-01-01')).toBe(350);
+  });
+});
@@ -0,0 +1,243 @@
+import { glickoConfig } from '../config/glickoConfig';
+import {
+  resolveMatchScore,
+  resolveScoreWeights,
+  toDayNumber,
+  type RatingModel,
+  type RatingState
+} from './elo';
+
+export type GlickoState = RatingState & {
+  deviation: number;
+  volatility: number;
+  lastPeriod: number | null;
+};
+
+// Glicko-2 works on an internal scale; 173.7178 = 400 / ln(10).
+const GLICKO_SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+const resolveInitialDeviation = () =>
+  glickoConfig.deviation > 0 ? glickoConfig.deviation : 350;
+
+const resolveInitialVolatility = () =>
+  glickoConfig.volatility > 0 ? glickoConfig.volatility : 0.06;
+
+const resolveTau = () => (glickoConfig.tau > 0 ? glickoConfig.tau : 0.5);
+
+const resolvePeriodDays = () =>
+  glickoConfig.ratingPeriodDays > 0 ? glickoConfig.ratingPeriodDays : 7;
+
+export const resolveRatingPeriod = (matchDate: string) =>
+  Math.floor(toDayNumber(matchDate) / resolvePeriodDays());
+
+const toMu = (rating: number) => (rating - glickoConfig.baseline) / GLICKO_SCALE;
+
+const toPhi = (deviation: number) => deviation / GLICKO_SCALE;
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expectedOutcome = (mu: number, opponentMu: number, opponentPhi: number) =>
+  1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+// Inflates deviation for idle rating periods, capped at the unrated deviation.
+const inflateDeviation = (deviation: number, volatility: number, idlePeriods: number) => {
+  if (idlePeriods <= 0) {
+    return deviation;
+  }
+  const phi = toPhi(deviation);
+  const inflated = Math.sqrt(phi * phi + idlePeriods * volatility * volatility) * GLICKO_SCALE;
+  return Math.min(resolveInitialDeviation(), inflated);
+};
+
+// Step 5 of Glickman's paper: Illinois-method solve for the new volatility.
+const solveVolatility = (phi: number, sigma: number, v: number, delta: number) => {
+  const tau = resolveTau();
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) - (x - a) / (tau * tau);
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + v) {
+    upper = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) {
+      k += 1;
+    }
+    upper = a - k * tau;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > CONVERGENCE_TOLERANCE) {
+    const next = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fNext = f(next);
+    if (fNext * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+    upper = next;
+    fUpper = fNext;
+  }
+
+  return Math.exp(lower / 2);
+};
+
+// Deviation at the start of `period`: grown for every idle period since the last match,
+// using the volatility as it stood.
+const resolvePeriodDeviation = (state: GlickoState, period: number) =>
+  inflateDeviation(
+    state.deviation,
+    state.volatility,
+    state.lastPeriod === null ? 0 : period - state.lastPeriod - 1
+  );
+
+const compositeOpponent = (states: GlickoState[], period: number) => {
+  const mu = states.reduce((sum, state) => sum + toMu(state.rating), 0) / states.length;
+  const phiSquared =
+    states.reduce((sum, state) => sum + toPhi(resolvePeriodDeviation(state, period)) ** 2, 0) /
+    states.length;
+  return { mu, phi: Math.sqrt(phiSquared) };
+};
+
+type PeriodResult = {
+  opponentMu: number;
+  opponentPhi: number;
+  score: number;
+};
+
+// Steps 3-8 of Glickman's paper for one player and rating period. `phi` must already
+// include growth for the idle periods before this one; `growDeviation` is false when
+// the period's step 6 has already been applied by an earlier match in it.
+const ratePeriod = (
+  mu: number,
+  phi: number,
+  sigma: number,
+  results: PeriodResult[],
+  growDeviation = true
+) => {
+  const terms = results.map((result) => ({
+    gOpponent: g(result.opponentPhi),
+    expected: expectedOutcome(mu, result.opponentMu, result.opponentPhi),
+    score: result.score
+  }));
+  const v =
+    1 /
+    terms.reduce(
+      (sum, term) => sum + term.gOpponent * term.gOpponent * term.expected * (1 - term.expected),
+      0
+    );
+  const improvement = terms.reduce(
+    (sum, term) => sum + term.gOpponent * (term.score - term.expected),
+    0
+  );
+  const nextSigma = solveVolatility(phi, sigma, v, v * improvement);
+  const phiStar = growDeviation ? Math.sqrt(phi * phi + nextSigma * nextSigma) : phi;
+  const nextPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+
+  return { mu: mu + nextPhi * nextPhi * improvement, phi: nextPhi, sigma: nextSigma };
+};
+
+// One rating period on the rating scale, as in Glickman's worked example.
+export const rateGlickoPeriod = (
+  player: Pick<GlickoState, 'rating' | 'deviation' | 'volatility'>,
+  results: Array<{ rating: number; deviation: number; score: number }>
+) => {
+  const next = ratePeriod(
+    toMu(player.rating),
+    toPhi(player.deviation),
+    player.volatility,
+    results.map((result) => ({
+      opponentMu: toMu(result.rating),
+      opponentPhi: toPhi(result.deviation),
+      score: result.score
+    }))
+  );
+  return {
+    rating: next.mu * GLICKO_SCALE + glickoConfig.baseline,
+    deviation: next.phi * GLICKO_SCALE,
+    volatility: next.sigma
+  };
+};
+
+// Matches are rated one at a time. Idle periods grow the deviation before the new
+// volatility is solved; a later match in the same period carries on from the updated
+// state without growing it again.
+const updatePlayer = (
+  state: GlickoState,
+  opponent: { mu: number; phi: number },
+  score: number,
+  period: number
+) => {
+  const next = ratePeriod(
+    toMu(state.rating),
+    toPhi(resolvePeriodDeviation(state, period)),
+    state.volatility,
+    [{ opponentMu: opponent.mu, opponentPhi: opponent.phi, score }],
+    state.lastPeriod !== period
+  );
+
+  return {
+    rating: next.mu * GLICKO_SCALE + glickoConfig.baseline,
+    deviation: next.phi * GLICKO_SCALE,
+    volatility: next.sigma
+  };
+};
+
+const applyUpdate = (
+  state: GlickoState,
+  next: ReturnType<typeof updatePlayer>,
+  period: number
+) => {
+  state.rating = next.rating;
+  state.deviation = next.deviation;
+  state.volatility = next.volatility;
+  state.lastPeriod = period;
+};
+
+export const glickoRatingModel: RatingModel<GlickoState> = {
+  id: 'glicko2',
+  baseline: glickoConfig.baseline,
+  createState: () => ({
+    rating: glickoConfig.baseline,
+    matchesPlayed: 0,
+    deviation: resolveInitialDeviation(),
+    volatility: resolveInitialVolatility(),
+    lastPeriod: null
+  }),
+  applyMatch: ({ match, totals, teamA, teamB, pairA, pairB }) => {
+    const period = resolveRatingPeriod(match.match_date);
+    const scoreA = resolveMatchScore(totals, resolveScoreWeights());
+    const opponentOfA = compositeOpponent(teamB, period);
+    const opponentOfB = compositeOpponent(teamA, period);
+
+    const nextA = teamA.map((state) => updatePlayer(state, opponentOfA, scoreA, period));
+    const nextB = teamB.map((state) => updatePlayer(state, opponentOfB, 1 - scoreA, period));
+
+    teamA.forEach((state, index) => applyUpdate(state, nextA[index], period));
+    teamB.forEach((state, index) => applyUpdate(state, nextB[index], period));
+
+    if (pairA && pairB) {
+      const nextPairA = updatePlayer(pairA, compositeOpponent([pairB], period), scoreA, period);
+      const nextPairB = updatePlayer(pairB, compositeOpponent([pairA], period), 1 - scoreA, period);
+      applyUpdate(pairA, nextPairA, period);
+      applyUpdate(pairB, nextPairB, period);
+    }
+  }
+};
+
+// Deviation as of a given date, including growth for periods without a match.
+export const projectGlickoDeviation = (state: GlickoState, asOfDate: string) => {
+  if (state.lastPeriod === null) {
+    return state.deviation;
+  }
+  const idlePeriods = resolveRatingPeriod(asOfDate) - state.lastPeriod;
+  return inflateDeviation(state.deviation, state.volatility, idlePeriods);
+};
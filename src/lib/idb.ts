@@ -0,0 +1,50 @@
+// Minimal promise wrappers around IndexedDB. Each database here has a single object store
+// keyed by `id`.
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+export const isIndexedDbSupported = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = (name: string, storeName: string) => {
+  const existing = databases.get(name);
+  if (existing) {
+    return existing;
+  }
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databases.delete(name);
+      reject(request.error ?? new Error(`Unable to open ${name}.`));
+    };
+  });
+  databases.set(name, opening);
+  return opening;
+};
+
+export const openKeyedStore = <T extends { id: string }>(name: string, storeName: string) => {
+  const run = async <R>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<R>
+  ) => {
+    const db = await openDatabase(name, storeName);
+    return new Promise<R>((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error(`${name} request failed.`));
+    });
+  };
+
+  return {
+    getAll: () => run<T[]>('readonly', (store) => store.getAll()),
+    get: (id: string) => run<T | undefined>('readonly', (store) => store.get(id)),
+    put: (value: T) => run('readwrite', (store) => store.put(value)),
+    delete: (id: string) => run('readwrite', (store) => store.delete(id)),
+    clear: () => run('readwrite', (store) => store.clear())
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { LadderChallengeRow, LadderPositionRow } from './data/types';
+import { isOpenChallenge, resolveChallengeError, resolveChallengeState } from './ladder';
+
+const now = new Date('2025-03-10T12:00:00Z');
+
+const positions: LadderPositionRow[] = ['p1', 'p2', 'p3', 'p4', 'p5'].map((playerId, index) => ({
+  id: `pos-${playerId}`,
+  player_id: playerId,
+  position: index + 1,
+  is_active: true,
+  created_at: '2025-01-01T00:00:00Z',
+  created_by: 'fixture',
+  updated_at: null,
+  updated_by: null
+}));
+
+const buildChallenge = (
+  challengerId: string,
+  challengedId: string,
+  overrides: Partial<LadderChallengeRow> = {}
+): LadderChallengeRow => ({
+  id: `${challengerId}-${challengedId}`,
+  challenger_id: challengerId,
+  challenged_id: challengedId,
+  state: 'issued',
+  challenger_position: 0,
+  challenged_position: 0,
+  respond_by: '2025-03-11T12:00:00Z',
+  accepted_at: null,
+  match_id: null,
+  winner_id: null,
+  played_at: null,
+  created_at: '2025-03-10T00:00:00Z',
+  created_by: challengerId,
+  updated_at: null,
+  updated_by: null,
+  ...overrides
+});
+
+describe('resolveChallengeState', () => {
+  it('expires issued challenges once the reply window has passed', () => {
+    const late = buildChallenge('p2', 'p1', { respond_by: '2025-03-10T11:59:00Z' });
+    expect(resolveChallengeState(late, now)).toBe('expired');
+    expect(isOpenChallenge(late, now)).toBe(false);
+  });
+
+  it('keeps accepted challenges open after the reply window', () => {
+    const accepted = buildChallenge('p2', 'p1', {
+      state: 'accepted',
+      respond_by: '2025-03-09T12:00:00Z'
+    });
+    expect(resolveChallengeState(accepted, now)).toBe('accepted');
+    expect(isOpenChallenge(accepted, now)).toBe(true);
+  });
+});
+
+describe('resolveChallengeError', () => {
+  const check = (challengerId: string, challengedId: string, challenges: LadderChallengeRow[] = []) =>
+    resolveChallengeError(positions, challenges, challengerId, challengedId, 3, now);
+
+  it('allows challenges up to the rank gap above the challenger', () => {
+    expect(check('p5', 'p2')).toBeNull();
+    expect(check('p5', 'p1')).toMatch(/up to 3 places/);
+  });
+
+  it('rejects challenges downwards and from players off the ladder', () => {
+    expect(check('p2', 'p4')).toMatch(/ranked above you/);
+    expect(check('p9', 'p1')).toMatch(/Join the ladder/);
+  });
+
+  it('blocks players who already have an open challenge', () => {
+    expect(check('p4', 'p2', [buildChallenge('p4', 'p3')])).toMatch(/You already/);
+    expect(check('p4', 'p2', [buildChallenge('p3', 'p2')])).toMatch(/That player/);
+    expect(
+      check('p4', 'p2', [buildChallenge('p3', 'p2', { respond_by: '2025-03-01T00:00:00Z' })])
+    ).toBeNull();
+    expect(check('p4', 'p2', [buildChallenge('p3', 'p2', { state: 'played' })])).toBeNull();
+  });
+});
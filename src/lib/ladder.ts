@@ -0,0 +1,67 @@
+import type { LadderChallengeRow, LadderChallengeState, LadderPositionRow } from './data/types';
+
+export const ladderChallengeStateLabels: Record<LadderChallengeState, string> = {
+  issued: 'Awaiting reply',
+  accepted: 'Accepted',
+  expired: 'Expired',
+  played: 'Played'
+};
+
+// An issued challenge past its reply window counts as expired even before the server
+// marks it, so nobody is offered an accept that would be refused.
+export const resolveChallengeState = (
+  challenge: Pick<LadderChallengeRow, 'state' | 'respond_by'>,
+  now: Date
+): LadderChallengeState =>
+  challenge.state === 'issued' && Date.parse(challenge.respond_by) <= now.getTime()
+    ? 'expired'
+    : challenge.state;
+
+export const isOpenChallenge = (challenge: LadderChallengeRow, now: Date) => {
+  const state = resolveChallengeState(challenge, now);
+  return state === 'issued' || state === 'accepted';
+};
+
+export const buildRespondBy = (now: Date, acceptWindowHours: number) =>
+  new Date(now.getTime() + Math.max(acceptWindowHours, 1) * 60 * 60 * 1000).toISOString();
+
+// Returns why `challengerId` cannot challenge `challengedId`, or null when allowed.
+// Each player can only be part of one open challenge at a time.
+export const resolveChallengeError = (
+  positions: LadderPositionRow[],
+  challenges: LadderChallengeRow[],
+  challengerId: string,
+  challengedId: string,
+  maxRankGap: number,
+  now: Date
+): string | null => {
+  const challenger = positions.find((row) => row.player_id === challengerId);
+  const challenged = positions.find((row) => row.player_id === challengedId);
+  if (!challenger) {
+    return 'Join the ladder before issuing a challenge.';
+  }
+  if (!challenged) {
+    return 'That player is not on the ladder.';
+  }
+  if (challenged.position >= challenger.position) {
+    return 'You can only challenge players ranked above you.';
+  }
+  if (challenger.position - challenged.position > maxRankGap) {
+    return `You can only challenge up to ${maxRankGap} places above you.`;
+  }
+
+  const busy = challenges.find(
+    (challenge) =>
+      isOpenChallenge(challenge, now) &&
+      [challenge.challenger_id, challenge.challenged_id].some(
+        (id) => id === challengerId || id === challengedId
+      )
+  );
+  if (busy) {
+    return busy.challenger_id === challengerId || busy.challenged_id === challengerId
+      ? 'You already have an open challenge.'
+      : 'That player already has an open challenge.';
+  }
+
+  return null;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { MatchSide } from './data/types';
+import { buildLiveScore, resolveServer, toGameInputs } from './liveScoring';
+
+const repeat = (side: MatchSide, count: number): MatchSide[] =>
+  Array.from({ length: count }, () => side);
+
+describe('resolveServer', () => {
+  it('gives each side two serves, then alternates every point from 10-10', () => {
+    const servers = [0, 1, 2, 3, 4].map((played) =>
+      resolveServer(1, 'A', { sideA: played, sideB: 0 })
+    );
+    expect(servers).toEqual(['A', 'A', 'B', 'B', 'A']);
+
+    expect(resolveServer(1, 'A', { sideA: 10, sideB: 10 })).toBe('A');
+    expect(resolveServer(1, 'A', { sideA: 11, sideB: 10 })).toBe('B');
+    expect(resolveServer(1, 'A', { sideA: 11, sideB: 11 })).toBe('A');
+  });
+
+  it('switches the first server every game', () => {
+    expect(resolveServer(2, 'A', { sideA: 0, sideB: 0 })).toBe('B');
+    expect(resolveServer(3, 'A', { sideA: 0, sideB: 0 })).toBe('A');
+  });
+});
+
+describe('buildLiveScore', () => {
+  it('needs a two point lead to close a game', () => {
+    const deuce = [...repeat('A', 10), ...repeat('B', 10), 'A', 'B', 'A'] as MatchSide[];
+    const open = buildLiveScore('bo3', 'A', deuce);
+    expect(open.games).toHaveLength(0);
+    expect(open.current).toEqual({ sideA: 12, sideB: 11 });
+
+    const closed = buildLiveScore('bo3', 'A', [...deuce, 'A']);
+    expect(closed.games).toEqual([{ sideA: 13, sideB: 11 }]);
+    expect(closed.current).toEqual({ sideA: 0, sideB: 0 });
+    expect(closed.server).toBe('B');
+  });
+
+  it('ends the match at the format win count and ignores later points', () => {
+    const points = [...repeat('A', 11), ...repeat('B', 11), ...repeat('A', 11), 'B'] as MatchSide[];
+    const score = buildLiveScore('bo3', 'B', points);
+    expect(score.winner).toBe('A');
+    expect(score.gamesWonA).toBe(2);
+    expect(score.gamesWonB).toBe(1);
+    expect(score.current).toEqual({ sideA: 0, sideB: 0 });
+    expect(toGameInputs(score)).toEqual([
+      { game_number: 1, side_a_score: 11, side_b_score: 0 },
+      { game_number: 2, side_a_score: 0, side_b_score: 11 },
+      { game_number: 3, side_a_score: 11, side_b_score: 0 }
+    ]);
+  });
+
+  it('finishes a best of one after a single game', () => {
+    expect(buildLiveScore('bo1', 'A', repeat('B', 11)).winner).toBe('B');
+  });
+});
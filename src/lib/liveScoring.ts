@@ -0,0 +1,99 @@
+import type { GameInput, MatchFormat, MatchSide } from './data/types';
+
+const POINTS_TO_WIN = 11;
+const DEUCE_POINTS = (POINTS_TO_WIN - 1) * 2;
+const SERVES_PER_TURN = 2;
+
+export const gamesToWinByFormat: Record<MatchFormat, number> = {
+  bo1: 1,
+  bo3: 2,
+  bo5: 3,
+  bo7: 4
+};
+
+export type LiveGameScore = {
+  sideA: number;
+  sideB: number;
+};
+
+export type LiveMatchScore = {
+  games: LiveGameScore[];
+  current: LiveGameScore;
+  gamesWonA: number;
+  gamesWonB: number;
+  server: MatchSide;
+  winner: MatchSide | null;
+};
+
+export const otherSide = (side: MatchSide): MatchSide => (side === 'A' ? 'B' : 'A');
+
+export const isGameWon = ({ sideA, sideB }: LiveGameScore) =>
+  Math.max(sideA, sideB) >= POINTS_TO_WIN && Math.abs(sideA - sideB) >= 2;
+
+// Two serves each until deuce, then one each. Whoever served first in a game receives
+// first in the next one.
+export const resolveServer = (gameNumber: number, firstServer: MatchSide, score: LiveGameScore) => {
+  const gameFirstServer = gameNumber % 2 === 1 ? firstServer : otherSide(firstServer);
+  const played = score.sideA + score.sideB;
+  const turns =
+    played >= DEUCE_POINTS
+      ? DEUCE_POINTS / SERVES_PER_TURN + (played - DEUCE_POINTS)
+      : Math.floor(played / SERVES_PER_TURN);
+  return turns % 2 === 0 ? gameFirstServer : otherSide(gameFirstServer);
+};
+
+// Rebuilds the whole match from the point log, so undo is just dropping the last point.
+// Points after the match is decided are ignored.
+export const buildLiveScore = (
+  format: MatchFormat,
+  firstServer: MatchSide,
+  points: MatchSide[]
+): LiveMatchScore => {
+  const gamesToWin = gamesToWinByFormat[format];
+  const games: LiveGameScore[] = [];
+  let current: LiveGameScore = { sideA: 0, sideB: 0 };
+  let gamesWonA = 0;
+  let gamesWonB = 0;
+  let winner: MatchSide | null = null;
+
+  for (const side of points) {
+    if (winner) {
+      break;
+    }
+    current =
+      side === 'A'
+        ? { ...current, sideA: current.sideA + 1 }
+        : { ...current, sideB: current.sideB + 1 };
+    if (!isGameWon(current)) {
+      continue;
+    }
+    games.push(current);
+    if (current.sideA > current.sideB) {
+      gamesWonA += 1;
+    } else {
+      gamesWonB += 1;
+    }
+    current = { sideA: 0, sideB: 0 };
+    if (gamesWonA === gamesToWin) {
+      winner = 'A';
+    } else if (gamesWonB === gamesToWin) {
+      winner = 'B';
+    }
+  }
+
+  return {
+    games,
+    current,
+    gamesWonA,
+    gamesWonB,
+    server: resolveServer(games.length + 1, firstServer, current),
+    winner
+  };
+};
+
+export const toGameInputs = (score: LiveMatchScore): GameInput[] =>
+  score.games.map((game, index) => ({
+    game_number: index + 1,
+    side_a_score: game.sideA,
+    side_b_score: game.sideB
+  }));
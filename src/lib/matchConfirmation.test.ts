@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { buildMatch } from './__fixtures__/matchHistory';
+import { canRespondToMatch, resolveConfirmingSide, resolveMatchStatus } from './matchConfirmation';
+
+const now = new Date('2025-03-10T12:00:00Z');
+
+const pending = buildMatch('m1', ['alice'], ['bob'], {
+  status: 'pending',
+  created_at: '2025-03-10T00:00:00Z',
+  created_by: 'alice'
+});
+
+describe('resolveMatchStatus', () => {
+  it('keeps a pending match pending inside the window', () => {
+    expect(resolveMatchStatus(pending, now, 48)).toBe('pending');
+  });
+
+  it('auto-confirms a pending match once the window has passed', () => {
+    expect(resolveMatchStatus(pending, now, 6)).toBe('confirmed');
+  });
+
+  it('never auto-confirms a disputed match', () => {
+    expect(resolveMatchStatus({ ...pending, status: 'disputed' }, now, 6)).toBe('disputed');
+  });
+});
+
+describe('canRespondToMatch', () => {
+  it('lets the opposing side respond but not the submitter', () => {
+    expect(canRespondToMatch(pending, 'bob', now, 48)).toBe(true);
+    expect(canRespondToMatch(pending, 'alice', now, 48)).toBe(false);
+  });
+
+  it('lets either doubles opponent respond, but not the submitter partner', () => {
+    const doubles = buildMatch('m2', ['carol', 'dave'], ['alice', 'bob'], {
+      status: 'pending',
+      created_at: '2025-03-10T00:00:00Z',
+      created_by: 'bob'
+    });
+    expect(resolveConfirmingSide(doubles)).toBe('A');
+    expect(canRespondToMatch(doubles, 'dave', now, 48)).toBe(true);
+    expect(canRespondToMatch(doubles, 'alice', now, 48)).toBe(false);
+  });
+
+  it('closes responses once the match is auto-confirmed', () => {
+    expect(canRespondToMatch(pending, 'bob', now, 6)).toBe(false);
+  });
+
+  it('has no confirming side when the submitter did not play', () => {
+    expect(resolveConfirmingSide({ ...pending, created_by: 'admin' })).toBeNull();
+    expect(canRespondToMatch({ ...pending, created_by: 'admin' }, 'bob', now, 48)).toBe(false);
+  });
+});
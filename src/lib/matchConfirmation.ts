@@ -0,0 +1,67 @@
+import { matchConfig } from '../config/matchConfig';
+import type { MatchRow, MatchSide, MatchStatus } from './data/types';
+
+export const matchStatusLabels: Record<MatchStatus, string> = {
+  pending: 'Awaiting confirmation',
+  confirmed: 'Confirmed',
+  disputed: 'Disputed'
+};
+
+export const buildAutoConfirmAt = (createdAt: string, autoConfirmHours: number) =>
+  new Date(Date.parse(createdAt) + Math.max(autoConfirmHours, 0) * 60 * 60 * 1000).toISOString();
+
+// A pending match past its confirmation window counts as confirmed even before the
+// server marks it, so ratings do not wait on a player who never replies.
+export const resolveMatchStatus = (
+  match: Pick<MatchRow, 'status' | 'created_at'>,
+  now: Date,
+  autoConfirmHours: number
+): MatchStatus =>
+  match.status === 'pending' &&
+  Date.parse(buildAutoConfirmAt(match.created_at, autoConfirmHours)) <= now.getTime()
+    ? 'confirmed'
+    : match.status;
+
+export const isRatedMatch = (
+  match: Pick<MatchRow, 'status' | 'created_at'>,
+  now: Date,
+  autoConfirmHours: number
+) => resolveMatchStatus(match, now, autoConfirmHours) === 'confirmed';
+
+// Pending and disputed results are listed but never counted: not in ratings, records,
+// standings or brackets.
+export const filterRatedMatches = <TMatch extends Pick<MatchRow, 'status' | 'created_at'>>(
+  matches: TMatch[],
+  now = new Date(),
+  autoConfirmHours = matchConfig.autoConfirmHours
+) => matches.filter((match) => isRatedMatch(match, now, autoConfirmHours));
+
+// The side that has to confirm: whichever side the submitter did not play on. Returns
+// null when the submitter was not a participant (e.g. an admin entering a result).
+export const resolveConfirmingSide = (
+  match: Pick<MatchRow, 'created_by' | 'team_a' | 'team_b'>
+): MatchSide | null => {
+  if ((match.team_a ?? []).includes(match.created_by)) {
+    return 'B';
+  }
+  if ((match.team_b ?? []).includes(match.created_by)) {
+    return 'A';
+  }
+  return null;
+};
+
+export const canRespondToMatch = (
+  match: MatchRow,
+  profileId: string,
+  now: Date,
+  autoConfirmHours: number
+) => {
+  if (!match.is_active || resolveMatchStatus(match, now, autoConfirmHours) !== 'pending') {
+    return false;
+  }
+  const side = resolveConfirmingSide(match);
+  if (!side) {
+    return false;
+  }
+  return ((side === 'A' ? match.team_a : match.team_b) ?? []).includes(profileId);
+};
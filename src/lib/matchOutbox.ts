@@ -0,0 +1,37 @@
+import type { CreateMatchInput } from './data/types';
+import { isIndexedDbSupported, openKeyedStore } from './idb';
+
+export type MatchOutboxState = 'pending' | 'sending' | 'failed';
+
+// A match submission waiting to reach the server. `id` is the client-generated match id,
+// so replaying an entry that already went through is detected instead of duplicated.
+export type MatchOutboxEntry = {
+  id: string;
+  input: CreateMatchInput & { matchId: string };
+  ladderChallengeId: string | null;
+  createdBy: string;
+  queuedAt: string;
+  state: MatchOutboxState;
+  matchSaved: boolean;
+  attempts: number;
+  error: string | null;
+};
+
+export const matchOutboxStateLabels: Record<MatchOutboxState, string> = {
+  pending: 'Waiting for connection',
+  sending: 'Sending...',
+  failed: 'Failed'
+};
+
+const outboxStore = openKeyedStore<MatchOutboxEntry>('ttt-outbox', 'matches');
+
+export const isOutboxSupported = isIndexedDbSupported;
+
+export const readOutboxEntries = async () => {
+  const entries = await outboxStore.getAll();
+  return entries.sort((a, b) => (a.queuedAt < b.queuedAt ? -1 : 1));
+};
+
+export const putOutboxEntry = (entry: MatchOutboxEntry) => outboxStore.put(entry);
+
+export const deleteOutboxEntry = (id: string) => outboxStore.delete(id);
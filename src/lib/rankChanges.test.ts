@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { buildRankChanges, formatRankChange } from './rankChanges';
+
+describe('buildRankChanges', () => {
+  it('reports positions gained and lost for rows in both tables', () => {
+    const previous = [
+      { id: 'alice', rank: 1 },
+      { id: 'bob', rank: 2 },
+      { id: 'carol', rank: 3 }
+    ];
+    const next = [
+      { id: 'carol', rank: 1 },
+      { id: 'alice', rank: 2 },
+      { id: 'bob', rank: 3 },
+      { id: 'dave', rank: 4 }
+    ];
+    expect(Object.fromEntries(buildRankChanges(previous, next))).toEqual({
+      carol: 2,
+      alice: -1,
+      bob: -1
+    });
+  });
+
+  it('formats gains and losses with arrows', () => {
+    expect(formatRankChange(2)).toBe('▲2');
+    expect(formatRankChange(-1)).toBe('▼1');
+  });
+});
@@ -0,0 +1,21 @@
+type RankedRow = {
+  id: string;
+  rank: number;
+};
+
+// Positions gained (positive) or lost (negative) by rows present in both tables. Rows that
+// are new, gone or unchanged are left out.
+export const buildRankChanges = (previous: RankedRow[], next: RankedRow[]) => {
+  const previousRanks = new Map(previous.map((row) => [row.id, row.rank]));
+  const changes = new Map<string, number>();
+  next.forEach((row) => {
+    const previousRank = previousRanks.get(row.id);
+    if (previousRank !== undefined && previousRank !== row.rank) {
+      changes.set(row.id, previousRank - row.rank);
+    }
+  });
+  return changes;
+};
+
+export const formatRankChange = (change: number) =>
+  change > 0 ? `▲${change}` : `▼${Math.abs(change)}`;
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { buildReadModelKey } from './readModelCache';
+
+describe('buildReadModelKey', () => {
+  it('is stable for the same read and differs between reads', () => {
+    const key = buildReadModelKey('matches', { matchType: 'singles' });
+    expect(buildReadModelKey('matches', { matchType: 'singles' })).toBe(key);
+    expect(buildReadModelKey('matches', { matchType: 'doubles' })).not.toBe(key);
+    expect(buildReadModelKey('profiles', { matchType: 'singles' })).not.toBe(key);
+  });
+
+  it('keeps keys short for large arguments', () => {
+    const matchIds = Array.from({ length: 500 }, (_, index) => `match-${index}`);
+    expect(buildReadModelKey('games', { matchIds })).toMatch(/^games:[0-9a-f]{8}$/);
+  });
+});
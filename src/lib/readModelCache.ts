@@ -0,0 +1,57 @@
+import { isIndexedDbSupported, openKeyedStore } from './idb';
+
+// The last successful response of a read, kept so pages can still render offline.
+export type CachedReadModel<T = unknown> = {
+  id: string;
+  data: T;
+  savedAt: string;
+};
+
+const readModelStore = openKeyedStore<CachedReadModel>('ttt-read-models', 'responses');
+
+// FNV-1a, so large arguments (hundreds of match ids) still give a short key.
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const buildReadModelKey = (name: string, args: unknown) =>
+  `${name}:${hashString(JSON.stringify(args ?? null))}`;
+
+export const readCachedReadModel = async <T>(key: string) => {
+  if (!isIndexedDbSupported()) {
+    return null;
+  }
+  try {
+    return ((await readModelStore.get(key)) as CachedReadModel<T> | undefined) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeCachedReadModel = async (key: string, data: unknown) => {
+  if (!isIndexedDbSupported()) {
+    return;
+  }
+  try {
+    await readModelStore.put({ id: key, data, savedAt: new Date().toISOString() });
+  } catch (err) {
+    console.warn('Unable to cache read model.', err);
+  }
+};
+
+// Signing out drops every saved response so the next person on this device starts clean.
+export const clearCachedReadModels = async () => {
+  if (!isIndexedDbSupported()) {
+    return;
+  }
+  try {
+    await readModelStore.clear();
+  } catch (err) {
+    console.warn('Unable to clear cached read models.', err);
+  }
+};
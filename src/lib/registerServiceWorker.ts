@@ -0,0 +1,14 @@
+// Production only: in dev the service worker would serve stale modules over Vite's HMR.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`./sw.js?v=${encodeURIComponent(__APP_VERSION__)}`)
+      .catch((err) => {
+        console.warn('Service worker registration failed.', err);
+      });
+  });
+};
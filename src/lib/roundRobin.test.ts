@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { buildCircleRounds, buildRoundRobinSchedule, splitIntoGroups } from './roundRobin';
+import type { SeededEntry } from './tournamentEntries';
+import { buildMatch } from './__fixtures__/matchHistory';
+
+const buildEntries = (count: number): SeededEntry[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `e${index + 1}`,
+    memberIds: [`p${index + 1}`],
+    seed: index + 1,
+    rating: 1000 - index
+  }));
+
+describe('buildCircleRounds', () => {
+  it('pairs every entry exactly once with no repeats inside a round', () => {
+    const rounds = buildCircleRounds(['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(rounds).toHaveLength(5);
+
+    const pairings = new Set<string>();
+    rounds.forEach((round) => {
+      const seen = round.pairs.flat();
+      expect(new Set(seen).size).toBe(seen.length);
+      expect(round.bye).toBeNull();
+      round.pairs.forEach((pair) => pairings.add([...pair].sort().join('-')));
+    });
+    expect(pairings.size).toBe(15);
+  });
+
+  it('gives each entry in an odd field one bye', () => {
+    const rounds = buildCircleRounds(['a', 'b', 'c', 'd', 'e']);
+    expect(rounds).toHaveLength(5);
+    expect(rounds.map((round) => round.bye).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+    rounds.forEach((round) => expect(round.pairs).toHaveLength(2));
+  });
+});
+
+describe('splitIntoGroups', () => {
+  it('snakes seeds across groups', () => {
+    expect(splitIntoGroups([1, 2, 3, 4, 5, 6, 7, 8], 2)).toEqual([
+      [1, 4, 5, 8],
+      [2, 3, 6, 7]
+    ]);
+  });
+
+  it('never leaves a group without an opponent', () => {
+    expect(splitIntoGroups([1, 2, 3], 4)).toHaveLength(1);
+  });
+});
+
+describe('buildRoundRobinSchedule', () => {
+  it('marks fixtures played once a tournament match between the entries is recorded', () => {
+    const matches = [
+      buildMatch('m1', ['p2'], ['p1'], {
+        competition_type: 'tournament',
+        winner_side: 'A',
+        loser_side: 'B'
+      })
+    ];
+    const schedule = buildRoundRobinSchedule(buildEntries(4), matches);
+
+    expect(schedule.playedCount).toBe(1);
+    expect(schedule.pendingCount).toBe(5);
+
+    const played = schedule.groups[0].rounds
+      .flatMap((round) => round.fixtures)
+      .find((fixture) => fixture.status === 'played');
+    expect(played).toMatchObject({ matchId: 'm1', winnerId: 'e2' });
+  });
+
+  it('leaves fixtures open while their result is unconfirmed', () => {
+    const matches = [
+      buildMatch('m1', ['p2'], ['p1'], {
+        competition_type: 'tournament',
+        status: 'pending',
+        created_at: new Date().toISOString()
+      }),
+      buildMatch('m2', ['p3'], ['p4'], { competition_type: 'tournament', status: 'disputed' })
+    ];
+    const schedule = buildRoundRobinSchedule(buildEntries(4), matches);
+
+    expect(schedule.playedCount).toBe(0);
+    expect(schedule.pendingCount).toBe(6);
+  });
+});
@@ -0,0 +1,138 @@
+import type { MatchRow } from './data/types';
+import {
+  claimRecordedMatch,
+  indexMatchesByPairing,
+  resolveEntryResult,
+  type SeededEntry
+} from './tournamentEntries';
+
+export type RoundRobinFixtureStatus = 'pending' | 'played';
+
+export type RoundRobinFixture = {
+  id: string;
+  group: number;
+  round: number;
+  entryA: SeededEntry;
+  entryB: SeededEntry;
+  status: RoundRobinFixtureStatus;
+  winnerId: string | null;
+  matchId: string | null;
+};
+
+export type RoundRobinRound = {
+  round: number;
+  fixtures: RoundRobinFixture[];
+  bye: SeededEntry | null;
+};
+
+export type RoundRobinGroup = {
+  index: number;
+  label: string;
+  entries: SeededEntry[];
+  rounds: RoundRobinRound[];
+};
+
+export type RoundRobinSchedule = {
+  groups: RoundRobinGroup[];
+  playedCount: number;
+  pendingCount: number;
+};
+
+export type CircleRound<T> = {
+  pairs: Array<[T, T]>;
+  bye: T | null;
+};
+
+// Circle method: the first entry stays fixed while the rest rotate one place per
+// round. An odd field gets a phantom slot, and whoever draws it sits the round out.
+export const buildCircleRounds = <T>(entries: T[]): CircleRound<T>[] => {
+  if (entries.length < 2) {
+    return [];
+  }
+
+  let slots: Array<T | null> = entries.length % 2 === 0 ? [...entries] : [...entries, null];
+  const slotCount = slots.length;
+  const rounds: CircleRound<T>[] = [];
+
+  for (let round = 0; round < slotCount - 1; round += 1) {
+    const pairs: Array<[T, T]> = [];
+    let bye: T | null = null;
+
+    for (let index = 0; index < slotCount / 2; index += 1) {
+      const home = slots[index];
+      const away = slots[slotCount - 1 - index];
+      if (home === null || away === null) {
+        bye = home ?? away;
+        continue;
+      }
+      // Alternate the fixed slot's side so it is not always listed first.
+      pairs.push(index === 0 && round % 2 === 1 ? [away, home] : [home, away]);
+    }
+
+    rounds.push({ pairs, bye });
+    slots = [slots[0], slots[slotCount - 1], ...slots.slice(1, slotCount - 1)];
+  }
+
+  return rounds;
+};
+
+// Snake order (A, B, B, A, ...) keeps the groups balanced by seed.
+export const splitIntoGroups = <T>(entries: T[], groupCount: number): T[][] => {
+  const count = Math.max(1, Math.min(Math.floor(groupCount), Math.floor(entries.length / 2) || 1));
+  const groups: T[][] = Array.from({ length: count }, () => []);
+
+  entries.forEach((entry, index) => {
+    const lap = Math.floor(index / count);
+    const offset = index % count;
+    groups[lap % 2 === 0 ? offset : count - 1 - offset].push(entry);
+  });
+
+  return groups;
+};
+
+export const buildGroupLabel = (index: number) => `Group ${String.fromCharCode(65 + index)}`;
+
+export const buildRoundRobinSchedule = (
+  entries: SeededEntry[],
+  matches: MatchRow[],
+  groupCount = 1
+): RoundRobinSchedule => {
+  const recordedByPairing = indexMatchesByPairing(matches);
+
+  let playedCount = 0;
+  let pendingCount = 0;
+
+  const groups = splitIntoGroups(entries, groupCount).map((groupEntries, groupIndex) => ({
+    index: groupIndex,
+    label: buildGroupLabel(groupIndex),
+    entries: groupEntries,
+    rounds: buildCircleRounds(groupEntries).map((circleRound, roundIndex) => ({
+      round: roundIndex + 1,
+      bye: circleRound.bye,
+      fixtures: circleRound.pairs.map(([entryA, entryB], fixtureIndex): RoundRobinFixture => {
+        const fixture = {
+          id: `G${groupIndex + 1}-R${roundIndex + 1}-${fixtureIndex + 1}`,
+          group: groupIndex,
+          round: roundIndex + 1,
+          entryA,
+          entryB
+        };
+        const match = claimRecordedMatch(recordedByPairing, entryA, entryB);
+        if (!match) {
+          pendingCount += 1;
+          return { ...fixture, status: 'pending', winnerId: null, matchId: null };
+        }
+
+        playedCount += 1;
+        return {
+          ...fixture,
+          status: 'played',
+          winnerId: resolveEntryResult(match, entryA, entryB).winner.id,
+          matchId: match.id
+        };
+      })
+    }))
+  }));
+
+  return { groups, playedCount, pendingCount };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { SeasonRow } from './data/types';
+import {
+  buildSeasonResets,
+  isWithinSeason,
+  resolveCurrentSeason,
+  resolveSeasonAsOfDate
+} from './seasons';
+
+const buildSeason = (
+  id: string,
+  startDate: string,
+  endDate: string,
+  overrides: Partial<SeasonRow> = {}
+): SeasonRow => ({
+  id,
+  name: id,
+  start_date: startDate,
+  end_date: endDate,
+  rating_mode: 'soft_reset',
+  reset_regression: 0.5,
+  is_active: true,
+  created_at: '2025-01-01T00:00:00Z',
+  created_by: 'fixture',
+  updated_at: null,
+  updated_by: null,
+  ...overrides
+});
+
+const seasons = [
+  buildSeason('q1', '2025-01-01', '2025-03-31'),
+  buildSeason('q2', '2025-04-01', '2025-06-30', { rating_mode: 'continuous' }),
+  buildSeason('q3', '2025-07-01', '2025-09-30', { reset_regression: 0.25 })
+];
+
+describe('seasons', () => {
+  it('includes both boundary days in a season', () => {
+    expect(isWithinSeason('2025-01-01', seasons[0])).toBe(true);
+    expect(isWithinSeason('2025-03-31', seasons[0])).toBe(true);
+    expect(isWithinSeason('2025-04-01', seasons[0])).toBe(false);
+  });
+
+  it('finds the season covering today, or none between seasons', () => {
+    expect(resolveCurrentSeason(seasons, '2025-05-15')?.id).toBe('q2');
+    expect(resolveCurrentSeason(seasons, '2025-12-01')).toBeNull();
+  });
+
+  it('reads finished seasons as of their last day', () => {
+    expect(resolveSeasonAsOfDate(seasons[0], '2025-05-15')).toBe('2025-03-31');
+    expect(resolveSeasonAsOfDate(seasons[1], '2025-05-15')).toBe('2025-05-15');
+    expect(resolveSeasonAsOfDate(null, '2025-05-15')).toBe('2025-05-15');
+  });
+
+  it('only resets at soft-reset seasons that have started', () => {
+    expect(buildSeasonResets(seasons, '2025-06-30')).toEqual([
+      { date: '2025-01-01', regression: 0.5 }
+    ]);
+    expect(buildSeasonResets(seasons, '2025-07-01')).toEqual([
+      { date: '2025-01-01', regression: 0.5 },
+      { date: '2025-07-01', regression: 0.25 }
+    ]);
+  });
+});
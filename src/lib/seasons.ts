@@ -0,0 +1,33 @@
+import type { SeasonRatingMode, SeasonRow } from './data/types';
+import type { RatingReset } from './elo';
+
+export const seasonRatingModeLabels: Record<SeasonRatingMode, string> = {
+  soft_reset: 'Soft reset',
+  continuous: 'Continuous ratings'
+};
+
+export const isWithinSeason = (matchDate: string, season: Pick<SeasonRow, 'start_date' | 'end_date'>) =>
+  matchDate >= season.start_date && matchDate <= season.end_date;
+
+export const isSeasonEnded = (season: Pick<SeasonRow, 'end_date'>, today: string) =>
+  season.end_date < today;
+
+// Seasons should not overlap; if they do, the one that started last wins.
+export const resolveCurrentSeason = (seasons: SeasonRow[], today: string): SeasonRow | null =>
+  seasons
+    .filter((season) => isWithinSeason(today, season))
+    .reduce<SeasonRow | null>(
+      (latest, season) => (!latest || season.start_date > latest.start_date ? season : latest),
+      null
+    );
+
+// Ratings for a finished season are read as of its last day, not today.
+export const resolveSeasonAsOfDate = (season: SeasonRow | null, today: string) =>
+  season && isSeasonEnded(season, today) ? season.end_date : today;
+
+// Every soft reset that has happened by `asOfDate`, so a replay of the full history
+// lands on the same ratings the ladder had at that point.
+export const buildSeasonResets = (seasons: SeasonRow[], asOfDate: string): RatingReset[] =>
+  seasons
+    .filter((season) => season.rating_mode === 'soft_reset' && season.start_date <= asOfDate)
+    .map((season) => ({ date: season.start_date, regression: season.reset_regression }));
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { buildMatchGameTotals } from './elo';
+import { buildStandings, defaultTiebreakRules, resolveTiebreakRules } from './standings';
+import type { MatchStatus } from './data/types';
+import type { SeededEntry } from './tournamentEntries';
+import { buildGames, buildMatch } from './__fixtures__/matchHistory';
+
+const entry = (id: string, seed: number): SeededEntry => ({
+  id,
+  memberIds: [id],
+  seed,
+  rating: 1000
+});
+
+// Records a tournament match won by the first player, one 11-5 game per game won.
+const win = (id: string, winner: string, loser: string, games: [number, number]) => ({
+  match: buildMatch(id, [winner], [loser], {
+    competition_type: 'tournament',
+    side_a_games_won: games[0],
+    side_b_games_won: games[1]
+  }),
+  games: buildGames(id, [
+    ...Array.from({ length: games[0] }, (): [number, number] => [11, 5]),
+    ...Array.from({ length: games[1] }, (): [number, number] => [5, 11])
+  ])
+});
+
+const standingsFor = (
+  entries: SeededEntry[],
+  results: ReturnType<typeof win>[],
+  rules = defaultTiebreakRules
+) => {
+  const matches = results.map((result) => result.match);
+  const games = results.flatMap((result) => result.games);
+  return buildStandings(entries, matches, buildMatchGameTotals(matches, games), rules);
+};
+
+describe('resolveTiebreakRules', () => {
+  it('drops unknown and repeated rules and falls back to the default chain', () => {
+    expect(resolveTiebreakRules(['points', 'bogus', 'points', 'match_wins'])).toEqual([
+      'points',
+      'match_wins'
+    ]);
+    expect(resolveTiebreakRules(null)).toEqual(defaultTiebreakRules);
+    expect(resolveTiebreakRules(['bogus'])).toEqual(defaultTiebreakRules);
+  });
+});
+
+describe('buildStandings', () => {
+  it('totals matches, games and points between listed entries only', () => {
+    const standings = standingsFor(
+      [entry('a', 1), entry('b', 2)],
+      [win('m1', 'a', 'b', [2, 1]), win('m2', 'a', 'x', [2, 0])]
+    );
+
+    expect(standings.rows[0]).toMatchObject({
+      rank: 1,
+      entry: { id: 'a' },
+      played: 1,
+      wins: 1,
+      gamesWon: 2,
+      gamesLost: 1,
+      pointsWon: 27,
+      pointsLost: 21
+    });
+    expect(standings.tiebreaks).toEqual([]);
+  });
+
+  it('breaks a two-way tie on head-to-head', () => {
+    const standings = standingsFor(
+      [entry('a', 1), entry('b', 2), entry('c', 3)],
+      [win('m1', 'a', 'b', [2, 1]), win('m2', 'b', 'c', [3, 0])]
+    );
+
+    // b has the better game difference, but a won their meeting.
+    expect(standings.rows.map((row) => row.entry.id)).toEqual(['a', 'b', 'c']);
+    expect(standings.tiebreaks).toEqual([
+      { rule: 'head_to_head', entryIds: ['a', 'b'], values: { a: 1, b: 0 } }
+    ]);
+  });
+
+  it('re-runs head-to-head on the entries still level after a three-way split', () => {
+    // a, b and c beat each other in a circle, so the three-way mini-table is flat.
+    const standings = standingsFor(
+      [entry('a', 1), entry('c', 2), entry('b', 3), entry('d', 4)],
+      [
+        win('m1', 'a', 'b', [2, 0]),
+        win('m2', 'b', 'c', [2, 1]),
+        win('m3', 'c', 'a', [2, 1]),
+        win('m4', 'a', 'd', [2, 0]),
+        win('m5', 'b', 'd', [2, 0]),
+        win('m6', 'c', 'd', [2, 1])
+      ],
+      ['match_wins', 'head_to_head', 'game_difference']
+    );
+
+    expect(standings.rows.map((row) => row.entry.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(standings.tiebreaks).toEqual([
+      { rule: 'head_to_head', entryIds: ['a', 'b', 'c'], values: { a: 1, b: 1, c: 1 } },
+      { rule: 'game_difference', entryIds: ['a', 'b', 'c'], values: { a: 3, b: 1, c: 1 } },
+      { rule: 'head_to_head', entryIds: ['b', 'c'], values: { b: 1, c: 0 } }
+    ]);
+  });
+
+  it('ignores pending and disputed results', () => {
+    const withStatus = (result: ReturnType<typeof win>, status: MatchStatus) => ({
+      ...result,
+      match: { ...result.match, status, created_at: new Date().toISOString() }
+    });
+    const standings = standingsFor(
+      [entry('a', 1), entry('b', 2)],
+      [
+        withStatus(win('m1', 'b', 'a', [2, 0]), 'pending'),
+        withStatus(win('m2', 'b', 'a', [2, 0]), 'disputed')
+      ]
+    );
+
+    expect(standings.rows.map((row) => [row.entry.id, row.played])).toEqual([
+      ['a', 0],
+      ['b', 0]
+    ]);
+  });
+
+  it('falls back to seed when every rule is level', () => {
+    const standings = standingsFor([entry('b', 2), entry('a', 1)], []);
+
+    expect(standings.rows.map((row) => row.entry.id)).toEqual(['a', 'b']);
+    expect(standings.tiebreaks.at(-1)).toMatchObject({ rule: 'seed', entryIds: ['a', 'b'] });
+  });
+});
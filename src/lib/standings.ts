@@ -0,0 +1,204 @@
+import type { MatchRow, TiebreakRule } from './data/types';
+import { buildTeamKey, type MatchGameTotals } from './elo';
+import { filterRatedMatches } from './matchConfirmation';
+import type { SeededEntry } from './tournamentEntries';
+
+export const defaultTiebreakRules: TiebreakRule[] = [
+  'match_wins',
+  'head_to_head',
+  'game_difference',
+  'points'
+];
+
+const tiebreakRuleSet = new Set<TiebreakRule>(defaultTiebreakRules);
+
+export const tiebreakRuleLabels: Record<TiebreakRule, string> = {
+  match_wins: 'Match wins',
+  game_difference: 'Game difference',
+  points: 'Point difference',
+  head_to_head: 'Head-to-head'
+};
+
+// tiebreak_rules is free-form jsonb, so drop unknown or repeated rules and fall back
+// to the default chain when nothing usable is left.
+export const resolveTiebreakRules = (raw: unknown): TiebreakRule[] => {
+  if (!Array.isArray(raw)) {
+    return defaultTiebreakRules;
+  }
+  const rules = raw.filter(
+    (rule, index): rule is TiebreakRule =>
+      tiebreakRuleSet.has(rule as TiebreakRule) && raw.indexOf(rule) === index
+  );
+  return rules.length ? rules : defaultTiebreakRules;
+};
+
+export type StandingsRow = {
+  entry: SeededEntry;
+  rank: number;
+  played: number;
+  wins: number;
+  losses: number;
+  gamesWon: number;
+  gamesLost: number;
+  pointsWon: number;
+  pointsLost: number;
+};
+
+// One tie the chain had to break: the entries level on every earlier rule, in their
+// final order, and what the rule measured for each. `seed` is the last resort.
+export type TiebreakStep = {
+  rule: TiebreakRule | 'seed';
+  entryIds: string[];
+  values: Record<string, number>;
+};
+
+export type Standings = {
+  rows: StandingsRow[];
+  tiebreaks: TiebreakStep[];
+};
+
+type EntryResult = {
+  entryAId: string;
+  entryBId: string;
+  winnerId: string;
+};
+
+const buildEmptyRow = (entry: SeededEntry): StandingsRow => ({
+  entry,
+  rank: 0,
+  played: 0,
+  wins: 0,
+  losses: 0,
+  gamesWon: 0,
+  gamesLost: 0,
+  pointsWon: 0,
+  pointsLost: 0
+});
+
+// Only confirmed matches between two of the given entries count, so a group table ignores
+// results from other groups or stages.
+export const buildStandings = (
+  entries: SeededEntry[],
+  matches: MatchRow[],
+  totals: Map<string, MatchGameTotals>,
+  rules: TiebreakRule[] = defaultTiebreakRules
+): Standings => {
+  const rowsById = new Map<string, StandingsRow>();
+  const entryIdByTeam = new Map<string, string>();
+  entries.forEach((entry) => {
+    rowsById.set(entry.id, buildEmptyRow(entry));
+    entryIdByTeam.set(buildTeamKey(entry.memberIds), entry.id);
+  });
+
+  const results: EntryResult[] = [];
+  filterRatedMatches(matches).forEach((match) => {
+    const entryAId = entryIdByTeam.get(buildTeamKey(match.team_a ?? []));
+    const entryBId = entryIdByTeam.get(buildTeamKey(match.team_b ?? []));
+    const rowA = entryAId ? rowsById.get(entryAId) : undefined;
+    const rowB = entryBId ? rowsById.get(entryBId) : undefined;
+    if (!entryAId || !entryBId || !rowA || !rowB || entryAId === entryBId) {
+      return;
+    }
+
+    const matchTotals = totals.get(match.id);
+    const winnerId = match.winner_side === 'A' ? entryAId : entryBId;
+    results.push({ entryAId, entryBId, winnerId });
+
+    rowA.played += 1;
+    rowB.played += 1;
+    const [winnerRow, loserRow] = winnerId === entryAId ? [rowA, rowB] : [rowB, rowA];
+    winnerRow.wins += 1;
+    loserRow.losses += 1;
+    rowA.gamesWon += match.side_a_games_won;
+    rowA.gamesLost += match.side_b_games_won;
+    rowB.gamesWon += match.side_b_games_won;
+    rowB.gamesLost += match.side_a_games_won;
+    rowA.pointsWon += matchTotals?.sideAPoints ?? 0;
+    rowA.pointsLost += matchTotals?.sideBPoints ?? 0;
+    rowB.pointsWon += matchTotals?.sideBPoints ?? 0;
+    rowB.pointsLost += matchTotals?.sideAPoints ?? 0;
+  });
+
+  // Head-to-head is a mini-table of match wins among the tied entries only.
+  const measure = (rule: TiebreakRule, tied: StandingsRow[]) => {
+    const values: Record<string, number> = {};
+    if (rule === 'head_to_head') {
+      const tiedIds = new Set(tied.map((row) => row.entry.id));
+      tied.forEach((row) => {
+        values[row.entry.id] = 0;
+      });
+      results.forEach((result) => {
+        if (tiedIds.has(result.entryAId) && tiedIds.has(result.entryBId)) {
+          values[result.winnerId] += 1;
+        }
+      });
+      return values;
+    }
+
+    tied.forEach((row) => {
+      values[row.entry.id] =
+        rule === 'match_wins'
+          ? row.wins
+          : rule === 'game_difference'
+            ? row.gamesWon - row.gamesLost
+            : row.pointsWon - row.pointsLost;
+    });
+    return values;
+  };
+
+  const tiebreaks: TiebreakStep[] = [];
+  const headToHeadIndex = rules.indexOf('head_to_head');
+
+  const order = (tied: StandingsRow[], ruleIndex: number, isTie: boolean): StandingsRow[] => {
+    if (tied.length < 2) {
+      return tied;
+    }
+
+    if (ruleIndex >= rules.length) {
+      const bySeed = [...tied].sort((a, b) => a.entry.seed - b.entry.seed);
+      tiebreaks.push({
+        rule: 'seed',
+        entryIds: bySeed.map((row) => row.entry.id),
+        values: Object.fromEntries(bySeed.map((row) => [row.entry.id, row.entry.seed]))
+      });
+      return bySeed;
+    }
+
+    const rule = rules[ruleIndex];
+    const values = measure(rule, tied);
+    const buckets = new Map<number, StandingsRow[]>();
+    tied.forEach((row) => {
+      const value = values[row.entry.id];
+      buckets.set(value, [...(buckets.get(value) ?? []), row]);
+    });
+
+    const step: TiebreakStep = { rule, entryIds: [], values };
+    if (isTie) {
+      tiebreaks.push(step);
+    }
+
+    // When a rule splits a tie, smaller groups still level go back through
+    // head-to-head so their mini-table only counts results among themselves.
+    const ordered = [...buckets.entries()]
+      .sort(([a], [b]) => b - a)
+      .flatMap(([, bucket]) =>
+        order(
+          bucket,
+          bucket.length < tied.length && headToHeadIndex !== -1 && headToHeadIndex <= ruleIndex
+            ? headToHeadIndex
+            : ruleIndex + 1,
+          true
+        )
+      );
+
+    step.entryIds = ordered.map((row) => row.entry.id);
+    return ordered;
+  };
+
+  const rows = order([...rowsById.values()], 0, false);
+  rows.forEach((row, index) => {
+    row.rank = index + 1;
+  });
+
+  return { rows, tiebreaks };
+};
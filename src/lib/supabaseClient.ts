@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { connectionErrorMessage, timeoutErrorMessage } from './data/errors';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -38,9 +39,9 @@ const isRetryableError = (error: unknown) => {
 
 const buildFriendlyError = (timedOut: boolean) => {
   if (timedOut) {
-    return new Error('The server is taking too long to respond. Please try again.');
+    return new Error(timeoutErrorMessage);
   }
-  return new Error('Unable to reach the server. Please check your connection and try again.');
+  return new Error(connectionErrorMessage);
 };
 
 const buildRetryStatusError = (status: number) => {
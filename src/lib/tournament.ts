@@ -0,0 +1,182 @@
+import { eloConfig } from '../config/eloConfig';
+import { getCompetitionById, lockCompetition } from './data/competitions';
+import { listCompetitionEntries, setCompetitionSeeds } from './data/competitionEntries';
+import { listCompetitionStages } from './data/competitionStages';
+import type {
+  CompetitionRow,
+  DbResult,
+  MatchRow,
+  MatchType,
+  ProfileRow,
+  TiebreakRule
+} from './data/types';
+import { eloRatingModel, type MatchGameTotals } from './elo';
+import { resolveTiebreakRules } from './standings';
+import { seedEntries, type SeededEntry } from './tournamentEntries';
+import { buildStagePipeline, type TournamentStage } from './tournamentStages';
+import { useMatchData } from '../stores/matchData';
+
+export type TournamentContext = {
+  competition: CompetitionRow;
+  matchType: MatchType;
+  // Every active entry, seeded for the first stage.
+  entries: SeededEntry[];
+  stages: TournamentStage[];
+  tiebreakRules: TiebreakRule[];
+  players: ProfileRow[];
+  // Active tournament matches recorded against this competition.
+  matches: MatchRow[];
+  gameTotals: Map<string, MatchGameTotals>;
+};
+
+// Seeds by the same ratings the leaderboard shows, season resets included.
+const loadCurrentRatings = async (matchType: MatchType): Promise<DbResult<Map<string, number>>> => {
+  const { listMatches, listSeasons, listGamesByMatchIds, buildMatchGameTotals, replayRatings } =
+    useMatchData();
+  const { data: seasons, error: seasonsError } = await listSeasons();
+  if (seasonsError) {
+    return { data: null, error: seasonsError };
+  }
+
+  const { data: matchesData, error: matchesError } = await listMatches({
+    includeInactive: false,
+    matchType
+  });
+  if (matchesError) {
+    return { data: null, error: matchesError };
+  }
+
+  const matches = matchesData ?? [];
+  const { data: gamesData, error: gamesError } = await listGamesByMatchIds(
+    matches.map((match) => match.id),
+    { includeInactive: false }
+  );
+  if (gamesError) {
+    return { data: null, error: gamesError };
+  }
+
+  const { states } = replayRatings(
+    eloRatingModel,
+    matches,
+    buildMatchGameTotals(matches, gamesData ?? []),
+    { ladder: matchType, seasons: seasons ?? [] }
+  );
+  const ratings = new Map<string, number>();
+  states.forEach((state, playerId) => {
+    ratings.set(playerId, state.rating);
+  });
+  return { data: ratings, error: null };
+};
+
+// Loads everything a tournament view needs: the competition, its active entries seeded
+// by manual seed then current Elo on the matching ladder (stored seeds only once the
+// tournament is locked), the stage pipeline, player names and results with their
+// per-match game totals.
+export const loadTournamentContext = async (
+  competitionId: string
+): Promise<DbResult<TournamentContext>> => {
+  const { listProfiles, listMatches, listGamesByMatchIds, buildMatchGameTotals } = useMatchData();
+  const { data: competition, error: competitionError } = await getCompetitionById(competitionId);
+  if (competitionError || !competition) {
+    return { data: null, error: competitionError ?? 'Competition not found.' };
+  }
+
+  const { data: entriesData, error: entriesError } = await listCompetitionEntries(competitionId);
+  if (entriesError) {
+    return { data: null, error: entriesError };
+  }
+  const entries = (entriesData ?? []).filter((entry) => entry.status === 'active');
+
+  const { data: stageRows, error: stagesError } = await listCompetitionStages(competitionId);
+  if (stagesError) {
+    return { data: null, error: stagesError };
+  }
+
+  const { data: players, error: profilesError } = await listProfiles();
+  if (profilesError) {
+    return { data: null, error: profilesError };
+  }
+
+  const { data: matches, error: matchesError } = await listMatches({
+    includeInactive: false,
+    competitionId,
+    competitionType: 'tournament'
+  });
+  if (matchesError) {
+    return { data: null, error: matchesError };
+  }
+
+  const { data: games, error: gamesError } = await listGamesByMatchIds(
+    (matches ?? []).map((match) => match.id),
+    { includeInactive: false }
+  );
+  if (gamesError) {
+    return { data: null, error: gamesError };
+  }
+
+  const matchType = competition.match_type;
+
+  const { data: ratings, error: ratingsError } = await loadCurrentRatings(matchType);
+  if (ratingsError || !ratings) {
+    return { data: null, error: ratingsError ?? 'Failed to load ratings.' };
+  }
+
+  const seeded = seedEntries(
+    entries.map((entry) => ({ id: entry.id, memberIds: entry.member_ids, seed: entry.seed })),
+    ratings,
+    eloConfig.baseline,
+    { locked: competition.state !== 'draft' }
+  );
+  const gameTotals = buildMatchGameTotals(matches ?? [], games ?? []);
+  const tiebreakRules = resolveTiebreakRules(competition.tiebreak_rules);
+
+  return {
+    data: {
+      competition,
+      matchType,
+      entries: seeded,
+      stages: buildStagePipeline(
+        competition,
+        stageRows ?? [],
+        seeded,
+        matches ?? [],
+        gameTotals,
+        tiebreakRules
+      ),
+      tiebreakRules,
+      players: players ?? [],
+      matches: matches ?? [],
+      gameTotals
+    },
+    error: null
+  };
+};
+
+// Stores the full resolved seed order before locking, so auto-seeded entries keep the
+// places they had at the lock instead of following ratings as results come in.
+export const lockTournamentWithSeeds = async (
+  competitionId: string
+): Promise<DbResult<{ id: string }>> => {
+  const { data: context, error: contextError } = await loadTournamentContext(competitionId);
+  if (contextError || !context) {
+    return { data: null, error: contextError ?? 'Competition not found.' };
+  }
+
+  const { error: seedsError } = await setCompetitionSeeds(
+    competitionId,
+    context.entries.map((entry) => entry.id)
+  );
+  if (seedsError) {
+    return { data: null, error: seedsError };
+  }
+
+  return lockCompetition(competitionId);
+};
+
+export const buildEntryLabel = (entry: SeededEntry, playerMap: Map<string, ProfileRow>) =>
+  entry.memberIds
+    .map((id) => {
+      const player = playerMap.get(id);
+      return player ? player.display_name?.trim() || player.username : 'Unknown player';
+    })
+    .join(' & ');
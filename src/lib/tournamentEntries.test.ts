@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { buildBracket, type Bracket } from './bracket';
+import { buildMatchGameTotals, createEloRatingModel, replayRatings } from './elo';
+import { seedEntries, validateCompetitionEntry } from './tournamentEntries';
+import {
+  buildGames,
+  buildMatch,
+  singlesGames,
+  singlesHistory,
+  testEloConfig
+} from './__fixtures__/matchHistory';
+import type { CompetitionEntry } from './data/types';
+
+describe('seedEntries', () => {
+  it('keeps manual seeds first and orders the rest by member rating', () => {
+    const ratings = new Map([
+      ['a', 1200],
+      ['b', 900],
+      ['c', 1100],
+      ['d', 1000]
+    ]);
+    const seeded = seedEntries(
+      [
+        { id: 'solo', memberIds: ['b'], seed: 1 },
+        { id: 'pair', memberIds: ['a', 'd'], seed: null },
+        { id: 'single', memberIds: ['c'], seed: null }
+      ],
+      ratings,
+      1000
+    );
+
+    expect(seeded.map((entry) => [entry.id, entry.seed])).toEqual([
+      ['solo', 1],
+      ['pair', 2],
+      ['single', 3]
+    ]);
+    expect(seeded[1].rating).toBe(1100);
+  });
+});
+
+describe('seedEntries after the lock', () => {
+  const players = ['alice', 'bob', 'carol', 'dave'];
+  const unseeded = players.map((id) => ({ id, memberIds: [id], seed: null }));
+
+  const ratingsAfter = (matches = singlesHistory, games = singlesGames) => {
+    const { states } = replayRatings(
+      createEloRatingModel(testEloConfig),
+      matches,
+      buildMatchGameTotals(matches, games),
+      { inactivity: testEloConfig.inactivity, ladder: 'singles' }
+    );
+    return new Map(Array.from(states.entries()).map(([id, state]) => [id, state.rating]));
+  };
+
+  const firstRound = (bracket: Bracket) =>
+    bracket.rounds[0].matches.map((match) => [match.entryA?.id, match.entryB?.id]);
+
+  it('keeps the bracket when a result recorded after the lock moves ratings', () => {
+    const atLock = seedEntries(unseeded, ratingsAfter(), testEloConfig.baseline);
+    // What lockTournamentWithSeeds stores.
+    const stored = atLock.map(({ id, memberIds, seed }) => ({ id, memberIds, seed }));
+
+    const upset = buildMatch('t1', ['bob'], ['dave'], {
+      match_date: '2025-02-01',
+      competition_type: 'tournament'
+    });
+    const laterRatings = ratingsAfter(
+      [...singlesHistory, upset],
+      [
+        ...singlesGames,
+        ...buildGames('t1', [
+          [11, 2],
+          [11, 3]
+        ])
+      ]
+    );
+    // Sanity check: without stored seeds the upset would reorder the field.
+    const reseeded = seedEntries(unseeded, laterRatings, testEloConfig.baseline);
+    expect(reseeded.map((entry) => entry.id)).not.toEqual(atLock.map((entry) => entry.id));
+
+    const afterResult = seedEntries(stored, laterRatings, testEloConfig.baseline, { locked: true });
+    expect(firstRound(buildBracket('single_elim', afterResult, [upset]))).toEqual(
+      firstRound(buildBracket('single_elim', atLock, []))
+    );
+  });
+
+  it('orders entries without a stored seed by id, not rating', () => {
+    const seeded = seedEntries(unseeded, ratingsAfter(), testEloConfig.baseline, { locked: true });
+    expect(seeded.map((entry) => entry.id)).toEqual(players);
+  });
+});
+
+describe('validateCompetitionEntry', () => {
+  const buildEntry = (
+    id: string,
+    memberIds: string[],
+    overrides: Partial<CompetitionEntry> = {}
+  ): CompetitionEntry => ({
+    id,
+    competition_id: 'cup',
+    seed: null,
+    status: 'active',
+    is_active: true,
+    created_at: '2025-01-01T12:00:00Z',
+    created_by: 'fixture',
+    updated_at: null,
+    updated_by: null,
+    member_ids: memberIds,
+    ...overrides
+  });
+  const validate = (
+    playerIds: string[],
+    matchType: 'singles' | 'doubles',
+    existing: CompetitionEntry[] = []
+  ) => validateCompetitionEntry({ competitionId: 'cup', playerIds }, matchType, existing);
+
+  it('accepts a complete entry of new players', () => {
+    expect(validate(['a'], 'singles')).toEqual([]);
+    expect(validate(['a', 'b'], 'doubles', [buildEntry('e1', ['c', 'd'])])).toEqual([]);
+  });
+
+  it('requires one player for singles and exactly two for doubles', () => {
+    expect(validate(['a', 'b'], 'singles')).toEqual(['Singles entries need exactly one player.']);
+    expect(validate(['a', ''], 'doubles')).toEqual(['Doubles entries need exactly two players.']);
+    expect(validate(['a', 'b', 'c'], 'doubles')).toEqual([
+      'Doubles entries need exactly two players.'
+    ]);
+  });
+
+  it('rejects the same player twice in one entry', () => {
+    expect(validate(['a', 'a'], 'doubles')).toEqual([
+      'A player cannot appear twice in the same entry.'
+    ]);
+  });
+
+  it('rejects a player already in another active entry', () => {
+    expect(validate(['a', 'c'], 'doubles', [buildEntry('e1', ['c', 'd'])])).toEqual([
+      'Each player can only be in one entry per competition.'
+    ]);
+  });
+
+  it('ignores withdrawn and removed entries', () => {
+    const existing = [
+      buildEntry('e1', ['c', 'd'], { status: 'withdrawn' }),
+      buildEntry('e2', ['e'], { is_active: false })
+    ];
+    expect(validate(['c', 'e'], 'doubles', existing)).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import type {
+  CompetitionEntry,
+  CompetitionEntryInput,
+  MatchRow,
+  MatchType
+} from './data/types';
+import { buildPairingKey, buildTeamKey, compareMatches } from './elo';
+import { filterRatedMatches } from './matchConfirmation';
+
+export type SeedableEntry = {
+  id: string;
+  memberIds: string[];
+  seed: number | null;
+};
+
+export type SeededEntry = {
+  id: string;
+  memberIds: string[];
+  seed: number;
+  rating: number;
+};
+
+// Manually seeded entries keep their order at the top; the rest are seeded by the
+// average current rating of their members. Once a tournament is locked its seeds are
+// stored, so `locked` stops ratings (which move with every tournament result) from
+// reordering anything: entries without a stored seed go last in id order.
+export const seedEntries = (
+  entries: SeedableEntry[],
+  ratings: Map<string, number>,
+  baseline: number,
+  options: { locked?: boolean } = {}
+): SeededEntry[] => {
+  const withRatings = entries.map((entry) => ({
+    ...entry,
+    rating: entry.memberIds.length
+      ? entry.memberIds.reduce((sum, id) => sum + (ratings.get(id) ?? baseline), 0) /
+        entry.memberIds.length
+      : baseline
+  }));
+
+  withRatings.sort((a, b) => {
+    if (a.seed !== null && b.seed !== null && a.seed !== b.seed) {
+      return a.seed - b.seed;
+    }
+    if ((a.seed === null) !== (b.seed === null)) {
+      return a.seed === null ? 1 : -1;
+    }
+    if (!options.locked && b.rating !== a.rating) {
+      return b.rating - a.rating;
+    }
+    return a.id.localeCompare(b.id);
+  });
+
+  return withRatings.map((entry, index) => ({
+    id: entry.id,
+    memberIds: entry.memberIds,
+    seed: index + 1,
+    rating: entry.rating
+  }));
+};
+
+// Singles entries have one player and doubles entries exactly two, and a player can
+// only be in one active entry per competition.
+export const validateCompetitionEntry = (
+  input: CompetitionEntryInput,
+  matchType: MatchType,
+  existingEntries: CompetitionEntry[]
+): string[] => {
+  const errors: string[] = [];
+  const playerIds = input.playerIds.filter(Boolean);
+  const teamSize = matchType === 'doubles' ? 2 : 1;
+
+  if (playerIds.length !== teamSize) {
+    errors.push(
+      matchType === 'doubles'
+        ? 'Doubles entries need exactly two players.'
+        : 'Singles entries need exactly one player.'
+    );
+  }
+  if (new Set(playerIds).size !== playerIds.length) {
+    errors.push('A player cannot appear twice in the same entry.');
+  }
+
+  const entered = new Set(
+    existingEntries
+      .filter((entry) => entry.is_active && entry.status === 'active')
+      .flatMap((entry) => entry.member_ids)
+  );
+  if (playerIds.some((id) => entered.has(id))) {
+    errors.push('Each player can only be in one entry per competition.');
+  }
+
+  return errors;
+};
+
+// Recorded matches grouped by who played whom, oldest first, so schedule slots can
+// claim them in order when the same pairing meets more than once. Unconfirmed results
+// leave their slot open.
+export const indexMatchesByPairing = (matches: MatchRow[]) => {
+  const byPairing = new Map<string, MatchRow[]>();
+  filterRatedMatches(matches).sort(compareMatches).forEach((match) => {
+    const key = buildPairingKey(match.team_a ?? [], match.team_b ?? []);
+    byPairing.set(key, [...(byPairing.get(key) ?? []), match]);
+  });
+  return byPairing;
+};
+
+export const claimRecordedMatch = (
+  byPairing: Map<string, MatchRow[]>,
+  entryA: SeededEntry,
+  entryB: SeededEntry
+) => byPairing.get(buildPairingKey(entryA.memberIds, entryB.memberIds))?.shift() ?? null;
+
+export const resolveEntryResult = (match: MatchRow, entryA: SeededEntry, entryB: SeededEntry) => {
+  const entryAIsTeamA = buildTeamKey(match.team_a ?? []) === buildTeamKey(entryA.memberIds);
+  const entryAWon = (match.winner_side === 'A') === entryAIsTeamA;
+  return entryAWon ? { winner: entryA, loser: entryB } : { winner: entryB, loser: entryA };
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type { CompetitionRow, CompetitionStageRow, MatchRow } from './data/types';
+import { buildStagePipeline, resolveActiveStage } from './tournamentStages';
+import type { SeededEntry } from './tournamentEntries';
+import { buildMatch } from './__fixtures__/matchHistory';
+
+const competition: CompetitionRow = {
+  id: 'cup',
+  name: 'Office Cup',
+  match_type: 'singles',
+  state: 'in_progress',
+  format: 'round_robin',
+  group_count: 1,
+  tiebreak_rules: null,
+  start_date: null,
+  end_date: null,
+  is_active: true,
+  created_at: '2025-01-01T00:00:00Z',
+  created_by: 'fixture',
+  updated_at: null,
+  updated_by: null
+};
+
+const buildStage = (
+  stageNumber: number,
+  overrides: Partial<CompetitionStageRow> = {}
+): CompetitionStageRow => ({
+  id: `s${stageNumber}`,
+  competition_id: competition.id,
+  stage_number: stageNumber,
+  format: 'round_robin',
+  group_count: 1,
+  advance_count: null,
+  state: 'draft',
+  started_at: null,
+  completed_at: null,
+  is_active: true,
+  created_at: '2025-01-01T00:00:00Z',
+  created_by: 'fixture',
+  updated_at: null,
+  updated_by: null,
+  ...overrides
+});
+
+// Ratings run against seed on purpose: later stages must ignore them.
+const entries: SeededEntry[] = Array.from({ length: 4 }, (_, index) => ({
+  id: `e${index + 1}`,
+  memberIds: [`p${index + 1}`],
+  seed: index + 1,
+  rating: 1000 + index * 100
+}));
+
+const win = (id: string, winner: string, loser: string, createdAt: string): MatchRow =>
+  buildMatch(id, [winner], [loser], {
+    competition_type: 'tournament',
+    competition_id: competition.id,
+    side_a_games_won: 2,
+    created_at: createdAt
+  });
+
+// Snake groups: A = e1, e4 and B = e2, e3. The lower seeds win both groups.
+const groupMatches = [
+  win('g1', 'p4', 'p1', '2025-02-01T10:00:00Z'),
+  win('g2', 'p3', 'p2', '2025-02-01T11:00:00Z')
+];
+
+const groupStage = buildStage(1, {
+  group_count: 2,
+  advance_count: 2,
+  state: 'completed',
+  started_at: '2025-02-01T09:00:00Z',
+  completed_at: '2025-02-01T12:00:00Z'
+});
+
+describe('buildStagePipeline', () => {
+  it('runs a competition without stages as one open stage', () => {
+    const stages = buildStagePipeline(competition, [], entries, groupMatches, new Map(), ['match_wins']);
+
+    expect(stages).toHaveLength(1);
+    expect(stages[0]).toMatchObject({ number: 1, state: 'in_progress', isImplicit: true });
+    expect(stages[0].matches).toHaveLength(2);
+  });
+
+  it('re-seeds the knockout from group finishing order', () => {
+    const knockout = buildStage(2, {
+      format: 'single_elim',
+      state: 'in_progress',
+      started_at: '2025-02-02T09:00:00Z'
+    });
+    const final = win('k1', 'p4', 'p3', '2025-02-02T10:00:00Z');
+    const stages = buildStagePipeline(
+      competition,
+      [groupStage, knockout],
+      entries,
+      [...groupMatches, final],
+      new Map(),
+      ['match_wins']
+    );
+
+    expect(stages[0].matches.map((match) => match.id)).toEqual(['g1', 'g2']);
+    expect(stages[1].matches.map((match) => match.id)).toEqual(['k1']);
+    expect(stages[1].entries.map((entry) => [entry.id, entry.seed])).toEqual([
+      ['e4', 1],
+      ['e3', 2],
+      ['e1', 3],
+      ['e2', 4]
+    ]);
+  });
+
+  it('leaves later stages empty until the previous stage is completed', () => {
+    const stages = buildStagePipeline(
+      competition,
+      [{ ...groupStage, state: 'in_progress', completed_at: null }, buildStage(2, { format: 'single_elim' })],
+      entries,
+      groupMatches,
+      new Map(),
+      ['match_wins']
+    );
+
+    expect(stages[1].entries).toEqual([]);
+    expect(stages[1].matches).toEqual([]);
+    expect(resolveActiveStage(stages)?.number).toBe(1);
+    expect(resolveActiveStage(stages, 2)?.number).toBe(2);
+  });
+});
@@ -0,0 +1,155 @@
+import type {
+  CompetitionRow,
+  CompetitionState,
+  CompetitionStageRow,
+  CompetitionStageState,
+  MatchRow,
+  TiebreakRule
+} from './data/types';
+import type { MatchGameTotals } from './elo';
+import { splitIntoGroups } from './roundRobin';
+import { buildStandings } from './standings';
+import type { SeededEntry } from './tournamentEntries';
+
+export const stageFormatLabels: Record<string, string> = {
+  round_robin: 'Round robin',
+  single_elim: 'Single elimination',
+  double_elim: 'Double elimination'
+};
+
+export const stageStateLabels: Record<CompetitionStageState, string> = {
+  draft: 'Draft',
+  in_progress: 'In progress',
+  completed: 'Completed'
+};
+
+export const competitionStateLabels: Record<CompetitionState, string> = {
+  draft: 'Draft',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  archived: 'Archived'
+};
+
+export type TournamentStage = {
+  id: string;
+  number: number;
+  format: string;
+  groupCount: number;
+  advanceCount: number | null;
+  state: CompetitionStageState;
+  // True for the single stage of a competition without a configured pipeline.
+  isImplicit: boolean;
+  // Empty until the previous stage is completed and its standings are final.
+  entries: SeededEntry[];
+  matches: MatchRow[];
+};
+
+// Competitions created before stages existed run as one stage that follows the
+// competition's own state.
+const buildImplicitStage = (competition: CompetitionRow): CompetitionStageRow => ({
+  id: competition.id,
+  competition_id: competition.id,
+  stage_number: 1,
+  format: competition.format,
+  group_count: competition.group_count,
+  advance_count: null,
+  state:
+    competition.state === 'draft' || competition.state === 'in_progress'
+      ? competition.state
+      : 'completed',
+  started_at: null,
+  completed_at: null,
+  is_active: true,
+  created_at: competition.created_at,
+  created_by: competition.created_by,
+  updated_at: null,
+  updated_by: null
+});
+
+// A match belongs to the stage that was in progress when it was recorded.
+const isWithinStage = (match: MatchRow, stage: CompetitionStageRow, next?: CompetitionStageRow) => {
+  if (!stage.started_at) {
+    return stage.state !== 'draft';
+  }
+  const recordedAt = Date.parse(match.created_at);
+  if (recordedAt < Date.parse(stage.started_at)) {
+    return false;
+  }
+  return !next?.started_at || recordedAt < Date.parse(next.started_at);
+};
+
+// Group finishers in order (every group winner, then every runner-up, ...) so the
+// next bracket keeps group winners apart and crosses groups in the first round.
+export const resolveStageQualifiers = (
+  stage: Pick<TournamentStage, 'format' | 'groupCount' | 'advanceCount' | 'entries' | 'matches'>,
+  totals: Map<string, MatchGameTotals>,
+  rules: TiebreakRule[]
+): SeededEntry[] => {
+  const groups =
+    stage.format === 'round_robin' ? splitIntoGroups(stage.entries, stage.groupCount) : [stage.entries];
+  const finishers = groups.map((entries) =>
+    buildStandings(entries, stage.matches, totals, rules).rows.map((row) => row.entry)
+  );
+  const advanceCount = stage.advanceCount ?? 0;
+
+  const qualifiers: SeededEntry[] = [];
+  for (let place = 0; place < advanceCount; place += 1) {
+    finishers.forEach((group) => {
+      if (group[place]) {
+        qualifiers.push(group[place]);
+      }
+    });
+  }
+
+  return qualifiers.map((entry, index) => ({ ...entry, seed: index + 1 }));
+};
+
+// Only the first stage is seeded by rating; every later stage is re-seeded purely
+// from the previous stage's final standings.
+export const buildStagePipeline = (
+  competition: CompetitionRow,
+  stageRows: CompetitionStageRow[],
+  entries: SeededEntry[],
+  matches: MatchRow[],
+  totals: Map<string, MatchGameTotals>,
+  rules: TiebreakRule[]
+): TournamentStage[] => {
+  const rows = stageRows.length ? stageRows : [buildImplicitStage(competition)];
+  const stages: TournamentStage[] = [];
+
+  rows.forEach((row, index) => {
+    const previous = stages[index - 1];
+    const stageEntries = !previous
+      ? entries
+      : previous.state === 'completed'
+        ? resolveStageQualifiers(previous, totals, rules)
+        : [];
+
+    stages.push({
+      id: row.id,
+      number: row.stage_number,
+      format: row.format,
+      groupCount: row.group_count,
+      advanceCount: row.advance_count,
+      state: row.state,
+      isImplicit: !stageRows.length,
+      entries: stageEntries,
+      matches: matches.filter((match) => isWithinStage(match, row, rows[index + 1]))
+    });
+  });
+
+  return stages;
+};
+
+// The stage to show by default: the latest one that has started, else the first.
+export const resolveActiveStage = (stages: TournamentStage[], requestedNumber?: number) => {
+  const requested = stages.find((stage) => stage.number === requestedNumber);
+  if (requested) {
+    return requested;
+  }
+  const started = stages.filter((stage) => stage.state !== 'draft');
+  return started[started.length - 1] ?? stages[0] ?? null;
+};
+
+export const buildStageLabel = (stage: TournamentStage) =>
+  `Stage ${stage.number} · ${stageFormatLabels[stage.format] ?? stage.format}`;
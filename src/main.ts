@@ -1,11 +1,19 @@
 ﻿import { createApp } from 'vue';
 import App from './App.vue';
 import router from './router';
+import { registerServiceWorker } from './lib/registerServiceWorker';
 import { useAuth } from './stores/auth';
 import { useMatchMode } from './stores/matchMode';
+import { useRatingModel } from './stores/ratingModel';
+import { useCompetitionScope } from './stores/competitionScope';
+import { useMatchOutbox } from './stores/matchOutbox';
 import './styles.css';
 
 useAuth().initAuth();
 useMatchMode().initMatchMode();
+useRatingModel().initRatingModel();
+useCompetitionScope().initCompetitionScope();
+useMatchOutbox().initMatchOutbox();
 
 createApp(App).use(router).mount('#app');
+registerServiceWorker();
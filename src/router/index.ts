@@ -1,11 +1,21 @@
 ﻿import { createRouter, createWebHashHistory } from 'vue-router';
+import AdminCalibrationPage from '../pages/AdminCalibrationPage.vue';
+import AdminDisputesPage from '../pages/AdminDisputesPage.vue';
+import AdminSeasonsPage from '../pages/AdminSeasonsPage.vue';
+import AdminTournamentPage from '../pages/AdminTournamentPage.vue';
+import AdminTournamentsPage from '../pages/AdminTournamentsPage.vue';
+import LadderPage from '../pages/LadderPage.vue';
 import LeaderboardPage from '../pages/LeaderboardPage.vue';
 import LoginPage from '../pages/LoginPage.vue';
 import MatchesPage from '../pages/MatchesPage.vue';
 import PlayerProfilePage from '../pages/PlayerProfilePage.vue';
 import SubmitMatchPage from '../pages/SubmitMatchPage.vue';
+import TournamentBracketPage from '../pages/TournamentBracketPage.vue';
+import TournamentPage from '../pages/TournamentPage.vue';
+import TournamentStandingsPage from '../pages/TournamentStandingsPage.vue';
 import UpdatePasswordPage from '../pages/UpdatePasswordPage.vue';
 import { useAuth } from '../stores/auth';
+import { useOfflineData } from '../stores/offlineData';
 
 const routes = [
   { path: '/', redirect: '/leaderboard' },
@@ -14,6 +24,7 @@ const routes = [
   { path: '/access_token=:token(.*)', component: UpdatePasswordPage, meta: { public: true } },
   { path: '/submit-match', component: SubmitMatchPage, meta: { requiresAuth: true, requiresProfile: true } },
   { path: '/leaderboard', component: LeaderboardPage, meta: { requiresAuth: true } },
+  { path: '/ladder', component: LadderPage, meta: { requiresAuth: true } },
   {
     path: '/players/:id',
     component: PlayerProfilePage,
@@ -26,7 +37,35 @@ const routes = [
     props: true,
     meta: { requiresAuth: true, requiresProfile: true }
   },
-  { path: '/my-matches', component: MatchesPage, meta: { requiresAuth: true, requiresProfile: true } }
+  { path: '/my-matches', component: MatchesPage, meta: { requiresAuth: true, requiresProfile: true } },
+  { path: '/tournaments/:id', component: TournamentPage, meta: { requiresAuth: true } },
+  { path: '/tournaments/:id/bracket', component: TournamentBracketPage, meta: { requiresAuth: true } },
+  { path: '/tournaments/:id/standings', component: TournamentStandingsPage, meta: { requiresAuth: true } },
+  {
+    path: '/admin/calibration',
+    component: AdminCalibrationPage,
+    meta: { requiresAuth: true, requiresProfile: true, requiresAdmin: true }
+  },
+  {
+    path: '/admin/disputes',
+    component: AdminDisputesPage,
+    meta: { requiresAuth: true, requiresProfile: true, requiresAdmin: true }
+  },
+  {
+    path: '/admin/seasons',
+    component: AdminSeasonsPage,
+    meta: { requiresAuth: true, requiresProfile: true, requiresAdmin: true }
+  },
+  {
+    path: '/admin/tournaments',
+    component: AdminTournamentsPage,
+    meta: { requiresAuth: true, requiresProfile: true, requiresAdmin: true }
+  },
+  {
+    path: '/admin/tournaments/:id',
+    component: AdminTournamentPage,
+    meta: { requiresAuth: true, requiresProfile: true, requiresAdmin: true }
+  }
 ];
 
 const router = createRouter({
@@ -36,7 +75,7 @@ const router = createRouter({
 });
 
 router.beforeEach(async (to) => {
-  const { initAuth, session, profile } = useAuth();
+  const { initAuth, session, profile, isAdmin } = useAuth();
   await initAuth();
 
   const isPublic = to.meta.public === true;
@@ -58,6 +97,10 @@ router.beforeEach(async (to) => {
     return '/leaderboard';
   }
 
+  if (to.meta.requiresAdmin && !isAdmin.value) {
+    return '/leaderboard';
+  }
+
   if (to.path === '/my-matches') {
     return `/players/${profile?.value?.id}/matches`;
   }
@@ -65,4 +108,11 @@ router.beforeEach(async (to) => {
   return true;
 });
 
+// Staleness is tracked per page: the next page flags whatever it reads from the device.
+router.afterEach((to, from) => {
+  if (to.path !== from.path) {
+    useOfflineData().resetReadModelStaleness();
+  }
+});
+
 export default router;
@@ -1,7 +1,10 @@
 import { computed, ref } from 'vue';
 import type { Session, User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabaseClient';
-import { missingProfileMessage } from '../lib/data/errors';
+import { isConnectionErrorMessage, mapDbError, missingProfileMessage } from '../lib/data/errors';
+import { queryCache } from '../lib/data/queryCache';
+import { clearCachedReadModels } from '../lib/readModelCache';
+import { useOfflineData } from './offlineData';
 
 export type Profile = {
   id: string;
@@ -66,6 +69,29 @@ const writeCachedProfileId = (authUserId: string, value: string | null) => {
   localStorage.setItem(key, value);
 };
 
+// The last loaded profile, so a signed-in player can still open profile-only pages when
+// the app starts offline.
+const cachedProfileKey = (authUserId: string) => `ttt-profile:${authUserId}`;
+
+const readCachedProfile = (authUserId: string): Profile | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const raw = localStorage.getItem(cachedProfileKey(authUserId));
+    return raw ? (JSON.parse(raw) as Profile) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCachedProfile = (authUserId: string, value: Profile) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  localStorage.setItem(cachedProfileKey(authUserId), JSON.stringify(value));
+};
+
 const clearScheduledProfileLoad = () => {
   if (scheduledProfileLoadTimeout === null) {
     return;
@@ -113,7 +139,14 @@ const loadProfile = async (authUser: User) => {
   }
 
   if (error && error.code !== 'PGRST116') {
-    profileError.value = error.message;
+    const offlineProfile = isConnectionErrorMessage(mapDbError(error))
+      ? readCachedProfile(authUser.id)
+      : null;
+    if (offlineProfile) {
+      profile.value = offlineProfile;
+    } else {
+      profileError.value = error.message;
+    }
     profileLoading.value = false;
     return;
   }
@@ -128,6 +161,7 @@ const loadProfile = async (authUser: User) => {
   profile.value = data as Profile;
   cachedProfileId.value = data.id;
   writeCachedProfileId(authUser.id, data.id);
+  writeCachedProfile(authUser.id, data as Profile);
   profileLoading.value = false;
 };
 
@@ -188,6 +222,15 @@ const initAuth = async () => {
       });
 
       authSubscription = authListener.subscription;
+
+      // Swap the offline copy of the profile for a fresh one once the network is back.
+      if (typeof window !== 'undefined') {
+        window.addEventListener('online', () => {
+          if (session.value?.user) {
+            void loadProfile(session.value.user);
+          }
+        });
+      }
     }
   })();
 
@@ -228,7 +271,15 @@ const signUpWithEmail = async (input: SignUpInput) => {
 };
 
 const signOut = async () => {
+  const authUserId = session.value?.user?.id;
   await supabase.auth.signOut();
+  if (authUserId && typeof window !== 'undefined') {
+    localStorage.removeItem(cachedProfileKey(authUserId));
+  }
+  // Cached reads include other players' profiles; none of it should outlive the session.
+  queryCache.invalidate();
+  useOfflineData().resetReadModelStaleness();
+  await clearCachedReadModels();
   session.value = null;
   profile.value = null;
   profileError.value = null;
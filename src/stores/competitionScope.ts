@@ -0,0 +1,83 @@
+import { computed, ref } from 'vue';
+import type { CompetitionType, MatchRow } from '../lib/data/types';
+
+// A single competition is stored as `competition:<id>` so it never collides with
+// the fixed scopes.
+export type CompetitionScope = 'all' | CompetitionType | `competition:${string}`;
+
+export type CompetitionScopeFilter = {
+  competitionType?: CompetitionType;
+  competitionId?: string;
+};
+
+const competitionScopeKey = 'ttt-competition-scope';
+const competitionPrefix = 'competition:';
+const competitionScope = ref<CompetitionScope>('all');
+let competitionScopeInitialized = false;
+
+const isCompetitionScope = (value: string): value is CompetitionScope =>
+  value === 'all' ||
+  value === 'ranked' ||
+  value === 'tournament' ||
+  (value.startsWith(competitionPrefix) && value.length > competitionPrefix.length);
+
+const initCompetitionScope = () => {
+  if (competitionScopeInitialized) {
+    return;
+  }
+  competitionScopeInitialized = true;
+  if (typeof window === 'undefined') {
+    return;
+  }
+  const stored = localStorage.getItem(competitionScopeKey);
+  if (stored && isCompetitionScope(stored)) {
+    competitionScope.value = stored;
+  }
+};
+
+const setCompetitionScope = (value: CompetitionScope) => {
+  competitionScope.value = value;
+  if (typeof window === 'undefined') {
+    return;
+  }
+  localStorage.setItem(competitionScopeKey, value);
+};
+
+const scopedCompetitionId = computed(() =>
+  competitionScope.value.startsWith(competitionPrefix)
+    ? competitionScope.value.slice(competitionPrefix.length)
+    : null
+);
+
+// Spread into `listMatches` options for lists that are only shown; the "all" scope adds
+// no filter. Ratings always replay the full history, so pages scope those rows with
+// `isInCompetitionScope` after the replay instead.
+const competitionScopeFilter = computed<CompetitionScopeFilter>(() => {
+  if (scopedCompetitionId.value) {
+    return { competitionId: scopedCompetitionId.value };
+  }
+  if (competitionScope.value === 'ranked' || competitionScope.value === 'tournament') {
+    return { competitionType: competitionScope.value };
+  }
+  return {};
+});
+
+const isInCompetitionScope = (match: Pick<MatchRow, 'competition_type' | 'competition_id'>) => {
+  const filter = competitionScopeFilter.value;
+  if (filter.competitionId) {
+    return match.competition_id === filter.competitionId;
+  }
+  return !filter.competitionType || match.competition_type === filter.competitionType;
+};
+
+export const buildCompetitionScope = (competitionId: string): CompetitionScope =>
+  `${competitionPrefix}${competitionId}`;
+
+export const useCompetitionScope = () => ({
+  competitionScope,
+  scopedCompetitionId,
+  competitionScopeFilter,
+  isInCompetitionScope,
+  setCompetitionScope,
+  initCompetitionScope
+});
@@ -0,0 +1,148 @@
+import { toRaw } from 'vue';
+import { listGamesByMatchIds as fetchGamesByMatchIds } from '../lib/data/games';
+import { listMatches as fetchMatches } from '../lib/data/matches';
+import { listProfiles as fetchProfiles } from '../lib/data/profiles';
+import { buildQueryKey, queryCache } from '../lib/data/queryCache';
+import { listSeasons as fetchSeasons } from '../lib/data/seasons';
+import type { GameRow, MatchRow, SeasonRow } from '../lib/data/types';
+import {
+  buildMatchGameTotals as computeMatchGameTotals,
+  replayRatings as computeReplay,
+  type MatchGameTotals,
+  type RatingModel,
+  type RatingReplay,
+  type RatingState,
+  type ReplayOptions
+} from '../lib/elo';
+import { buildSeasonResets } from '../lib/seasons';
+
+// Reads shared by the leaderboard, match list and player profile. Results are cached and
+// handed out as the same arrays, so treat them as read-only. Writes in src/lib/data and
+// the live match feed drop the cached matches and games.
+
+type ListProfilesOptions = Parameters<typeof fetchProfiles>[0];
+type ListMatchesOptions = Parameters<typeof fetchMatches>[0];
+type ListGamesOptions = Parameters<typeof fetchGamesByMatchIds>[1];
+
+const listProfiles = (options?: ListProfilesOptions) =>
+  queryCache.query(buildQueryKey('profiles', options ?? {}), ['profiles'], () =>
+    fetchProfiles(options)
+  );
+
+const listMatches = (options?: ListMatchesOptions) =>
+  queryCache.query(buildQueryKey('matches', options ?? {}), ['matches'], () =>
+    fetchMatches(options)
+  );
+
+// Every rating replay needs these for the season soft resets.
+const listSeasons = () =>
+  queryCache.query(buildQueryKey('seasons', null), ['seasons'], fetchSeasons);
+
+const listGamesByMatchIds = (matchIds: string[], options?: ListGamesOptions) =>
+  queryCache.query(
+    buildQueryKey('games', { matchIds: [...matchIds].sort(), ...options }),
+    ['games'],
+    () => fetchGamesByMatchIds(matchIds, options)
+  );
+
+// Keyed on the cached arrays themselves, so a refetch naturally starts over.
+const totalsMemo = new WeakMap<MatchRow[], WeakMap<GameRow[], Map<string, MatchGameTotals>>>();
+
+const buildMatchGameTotals = (matches: MatchRow[], games: GameRow[]) => {
+  const rawMatches = toRaw(matches);
+  const rawGames = toRaw(games);
+  let byGames = totalsMemo.get(rawMatches);
+  if (!byGames) {
+    byGames = new WeakMap();
+    totalsMemo.set(rawMatches, byGames);
+  }
+  let totals = byGames.get(rawGames);
+  if (!totals) {
+    totals = computeMatchGameTotals(rawMatches, rawGames);
+    byGames.set(rawGames, totals);
+  }
+  return totals;
+};
+
+type ReplayMemoEntry = {
+  matches: MatchRow[];
+  matchTotals: Map<string, MatchGameTotals>;
+  optionsKey: string;
+  replay: RatingReplay<RatingState>;
+};
+
+const REPLAY_MEMO_SIZE = 8;
+
+// Newest first, per rating model.
+const replayMemo = new WeakMap<object, ReplayMemoEntry[]>();
+
+const isSameMatchList = (left: MatchRow[], right: MatchRow[]) =>
+  left.length === right.length && left.every((match, index) => match === right[index]);
+
+const formatToday = () => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+// The season resets replace `resets`, so every page lands on the leaderboard's
+// ratings.
+export type MatchDataReplayOptions = Omit<ReplayOptions, 'resets'> & {
+  seasons: SeasonRow[];
+};
+
+// Applies the season resets up to `asOfDate` (or today). Pages filter the cached matches
+// (by ladder, season or player) before replaying, so a memo hit is any list holding the
+// same match objects rather than the same array. The resets are part of the memo key, so
+// a season change replays. After a refetch the newest replay with the same options is
+// resumed from its checkpoint, so a live update only applies the matches that changed.
+const replayRatings = <TState extends RatingState>(
+  model: RatingModel<TState>,
+  matches: MatchRow[],
+  matchTotals: Map<string, MatchGameTotals>,
+  { seasons, ...replayOptions }: MatchDataReplayOptions
+): RatingReplay<TState> => {
+  const options: ReplayOptions = {
+    ...replayOptions,
+    resets: buildSeasonResets(toRaw(seasons), replayOptions.asOfDate ?? formatToday())
+  };
+  // A custom predicate cannot be compared, so it always replays.
+  if (options.isRated) {
+    return computeReplay(model, matches, matchTotals, options);
+  }
+
+  const rawMatches = toRaw(matches).map((match) => toRaw(match));
+  const rawTotals = toRaw(matchTotals);
+  const optionsKey = JSON.stringify(options);
+  const entries = replayMemo.get(model) ?? [];
+  const hit = entries.find(
+    (entry) =>
+      entry.optionsKey === optionsKey &&
+      entry.matchTotals === rawTotals &&
+      isSameMatchList(entry.matches, rawMatches)
+  );
+  if (hit) {
+    return hit.replay as RatingReplay<TState>;
+  }
+
+  const previous = entries.find((entry) => entry.optionsKey === optionsKey);
+  const replay = computeReplay(model, rawMatches, rawTotals, {
+    ...options,
+    resumeFrom: previous?.replay.checkpoint
+  });
+  replayMemo.set(model, [
+    { matches: rawMatches, matchTotals: rawTotals, optionsKey, replay },
+    ...entries.slice(0, REPLAY_MEMO_SIZE - 1)
+  ]);
+  return replay;
+};
+
+export const useMatchData = () => ({
+  listProfiles,
+  listMatches,
+  listSeasons,
+  listGamesByMatchIds,
+  buildMatchGameTotals,
+  replayRatings
+});
@@ -0,0 +1,220 @@
+import { computed, ref, shallowRef, watch } from 'vue';
+import { linkLadderChallenge } from '../lib/data/ladder';
+import { createMatch, createUuid, getMatchById } from '../lib/data/matches';
+import { duplicateMatchMessage, isConnectionErrorMessage } from '../lib/data/errors';
+import type { CreateMatchInput, DbResult } from '../lib/data/types';
+import {
+  deleteOutboxEntry,
+  isOutboxSupported,
+  putOutboxEntry,
+  readOutboxEntries,
+  type MatchOutboxEntry
+} from '../lib/matchOutbox';
+import { useAuth } from './auth';
+
+// Entries are replaced wholesale on every change so they stay plain objects IndexedDB can
+// store.
+const entries = shallowRef<MatchOutboxEntry[]>([]);
+const flushing = ref(false);
+let outboxInitialized = false;
+
+const pendingCount = computed(() => entries.value.filter((entry) => entry.state !== 'failed').length);
+const failedCount = computed(() => entries.value.filter((entry) => entry.state === 'failed').length);
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const saveEntry = async (entry: MatchOutboxEntry) => {
+  entries.value = [...entries.value.filter((existing) => existing.id !== entry.id), entry].sort(
+    (a, b) => (a.queuedAt < b.queuedAt ? -1 : 1)
+  );
+  await putOutboxEntry(entry);
+};
+
+const removeEntry = async (id: string) => {
+  entries.value = entries.value.filter((entry) => entry.id !== id);
+  await deleteOutboxEntry(id);
+};
+
+type ReplayOutcome = 'done' | 'offline' | 'failed';
+
+// Safe to run more than once for the same entry: an id that already exists on the server
+// counts as saved, and the ladder step only runs after the match is known to be saved.
+const replayEntry = async (entry: MatchOutboxEntry): Promise<ReplayOutcome> => {
+  let current: MatchOutboxEntry = {
+    ...entry,
+    state: 'sending',
+    attempts: entry.attempts + 1,
+    error: null
+  };
+  await saveEntry(current);
+
+  const settle = async (outcome: ReplayOutcome, error: string | null, matchSaved: boolean) => {
+    current = { ...current, state: outcome === 'failed' ? 'failed' : 'pending', error, matchSaved };
+    await saveEntry(current);
+    return outcome;
+  };
+
+  if (!current.matchSaved) {
+    const { data: existing, error: lookupError } = await getMatchById(current.id);
+    if (isConnectionErrorMessage(lookupError)) {
+      return settle('offline', lookupError, false);
+    }
+    if (!existing) {
+      const { error: createError } = await createMatch(current.input);
+      if (isConnectionErrorMessage(createError)) {
+        return settle('offline', createError, false);
+      }
+      if (createError && createError !== duplicateMatchMessage) {
+        return settle('failed', createError, false);
+      }
+    }
+    current = { ...current, matchSaved: true };
+  }
+
+  if (current.ladderChallengeId) {
+    const { error: ladderError } = await linkLadderChallenge(current.ladderChallengeId, current.id);
+    if (isConnectionErrorMessage(ladderError)) {
+      return settle('offline', ladderError, true);
+    }
+    if (ladderError) {
+      return settle(
+        'failed',
+        `Match saved, but it was not linked to the challenge: ${ladderError}`,
+        true
+      );
+    }
+  }
+
+  await removeEntry(current.id);
+  return 'done';
+};
+
+// Sends queued matches in the order they were recorded and stops at the first connection
+// failure. Failed entries wait for an explicit retry.
+const flushMatchOutbox = async () => {
+  const { profile } = useAuth();
+  if (flushing.value || !profile.value || isOffline()) {
+    return;
+  }
+
+  flushing.value = true;
+  try {
+    const profileId = profile.value.id;
+    const queued = entries.value.filter(
+      (entry) => entry.state === 'pending' && entry.createdBy === profileId
+    );
+    for (const entry of queued) {
+      if ((await replayEntry(entry)) === 'offline') {
+        break;
+      }
+    }
+  } finally {
+    flushing.value = false;
+  }
+};
+
+const queueMatch = async (
+  input: CreateMatchInput & { matchId: string },
+  createdBy: string,
+  ladderChallengeId: string | null
+) => {
+  await saveEntry({
+    id: input.matchId,
+    input,
+    ladderChallengeId,
+    createdBy,
+    queuedAt: new Date().toISOString(),
+    state: 'pending',
+    matchSaved: false,
+    attempts: 0,
+    error: null
+  });
+};
+
+// Creates the match right away when possible and falls back to the outbox when the
+// device is offline or the request never reached the server. Any other error (validation,
+// permissions, conflicts) is returned as-is so the form can show it.
+const submitMatch = async (
+  input: CreateMatchInput,
+  options: { ladderChallengeId?: string | null } = {}
+): Promise<DbResult<{ id: string; queued: boolean }>> => {
+  const { requireProfileId } = useAuth();
+  const { profileId, error } = requireProfileId();
+  if (error || !profileId) {
+    return { data: null, error };
+  }
+
+  const matchInput = { ...input, matchId: input.matchId ?? createUuid() };
+  const ladderChallengeId = options.ladderChallengeId ?? null;
+
+  if (isOutboxSupported() && isOffline()) {
+    await queueMatch(matchInput, profileId, ladderChallengeId);
+    return { data: { id: matchInput.matchId, queued: true }, error: null };
+  }
+
+  const { error: createError } = await createMatch(matchInput);
+  if (isOutboxSupported() && isConnectionErrorMessage(createError)) {
+    await queueMatch(matchInput, profileId, ladderChallengeId);
+    return { data: { id: matchInput.matchId, queued: true }, error: null };
+  }
+  if (createError) {
+    return { data: null, error: createError };
+  }
+
+  return { data: { id: matchInput.matchId, queued: false }, error: null };
+};
+
+const retryOutboxEntry = async (id: string) => {
+  const entry = entries.value.find((existing) => existing.id === id);
+  if (!entry) {
+    return;
+  }
+  await saveEntry({ ...entry, state: 'pending', error: null });
+  await flushMatchOutbox();
+};
+
+const discardOutboxEntry = (id: string) => removeEntry(id);
+
+const initMatchOutbox = async () => {
+  if (outboxInitialized || typeof window === 'undefined' || !isOutboxSupported()) {
+    return;
+  }
+  outboxInitialized = true;
+
+  try {
+    // A send interrupted by closing the tab is simply retried.
+    entries.value = (await readOutboxEntries()).map((entry) =>
+      entry.state === 'sending' ? { ...entry, state: 'pending' } : entry
+    );
+  } catch (err) {
+    console.warn('Offline outbox unavailable.', err);
+    return;
+  }
+
+  window.addEventListener('online', () => {
+    flushMatchOutbox();
+  });
+
+  const { profile } = useAuth();
+  watch(
+    () => profile.value?.id,
+    (profileId) => {
+      if (profileId) {
+        flushMatchOutbox();
+      }
+    },
+    { immediate: true }
+  );
+};
+
+export const useMatchOutbox = () => ({
+  outboxEntries: entries,
+  outboxFlushing: flushing,
+  outboxPendingCount: pendingCount,
+  outboxFailedCount: failedCount,
+  submitMatch,
+  flushMatchOutbox,
+  retryOutboxEntry,
+  discardOutboxEntry,
+  initMatchOutbox
+});
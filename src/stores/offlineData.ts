@@ -0,0 +1,41 @@
+import { computed, shallowRef } from 'vue';
+
+// Cache timestamp per read key currently served from the device instead of the network.
+// Replaced wholesale on every change.
+const staleReads = shallowRef<Record<string, string>>({});
+
+// Oldest of those timestamps. Null while everything on screen is live.
+const staleAsOf = computed(() =>
+  Object.values(staleReads.value).reduce<string | null>(
+    (oldest, savedAt) => (!oldest || savedAt < oldest ? savedAt : oldest),
+    null
+  )
+);
+
+const markReadModelStale = (key: string, savedAt: string) => {
+  staleReads.value = { ...staleReads.value, [key]: savedAt };
+};
+
+const markReadModelFresh = (key: string) => {
+  if (!(key in staleReads.value)) {
+    return;
+  }
+  const next = { ...staleReads.value };
+  delete next[key];
+  staleReads.value = next;
+};
+
+// Called when a new page loads (and on sign-out): whatever it reads marks itself again.
+const resetReadModelStaleness = () => {
+  staleReads.value = {};
+};
+
+const isShowingStaleData = computed(() => staleAsOf.value !== null);
+
+export const useOfflineData = () => ({
+  staleAsOf,
+  isShowingStaleData,
+  markReadModelStale,
+  markReadModelFresh,
+  resetReadModelStaleness
+});
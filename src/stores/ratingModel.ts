@@ -0,0 +1,38 @@
+import { computed, ref } from 'vue';
+
+export type RatingModelId = 'elo' | 'glicko2';
+
+const ratingModelKey = 'ttt-rating-model';
+const ratingModel = ref<RatingModelId>('elo');
+let ratingModelInitialized = false;
+
+const initRatingModel = () => {
+  if (ratingModelInitialized) {
+    return;
+  }
+  ratingModelInitialized = true;
+  if (typeof window === 'undefined') {
+    return;
+  }
+  const stored = localStorage.getItem(ratingModelKey);
+  if (stored === 'elo' || stored === 'glicko2') {
+    ratingModel.value = stored;
+  }
+};
+
+const setRatingModel = (value: RatingModelId) => {
+  ratingModel.value = value;
+  if (typeof window === 'undefined') {
+    return;
+  }
+  localStorage.setItem(ratingModelKey, value);
+};
+
+const isGlicko = computed(() => ratingModel.value === 'glicko2');
+
+export const useRatingModel = () => ({
+  ratingModel,
+  isGlicko,
+  setRatingModel,
+  initRatingModel
+});
@@ -16,6 +16,24 @@ interface ImportMetaEnv {
   readonly VITE_ELO_WEIGHT_BO3: string;
   readonly VITE_ELO_WEIGHT_BO5: string;
   readonly VITE_ELO_WEIGHT_BO7: string;
+  readonly VITE_ELO_TOURNAMENT_MULTIPLIER: string;
+  readonly VITE_ELO_COMBINED_LADDER: string;
+  readonly VITE_ELO_TEAM_BLEND: string;
+  readonly VITE_ELO_PROVISIONAL_MATCHES: string;
+  readonly VITE_ELO_PROVISIONAL_K_MULTIPLIER: string;
+  readonly VITE_ELO_PROVISIONAL_HIDE: string;
+  readonly VITE_ELO_INACTIVITY_MODE: string;
+  readonly VITE_ELO_INACTIVITY_WEEKS: string;
+  readonly VITE_ELO_INACTIVITY_DRIFT: string;
+  readonly VITE_GLICKO_BASELINE: string;
+  readonly VITE_GLICKO_DEVIATION: string;
+  readonly VITE_GLICKO_VOLATILITY: string;
+  readonly VITE_GLICKO_TAU: string;
+  readonly VITE_GLICKO_PERIOD_DAYS: string;
+  readonly VITE_LADDER_MAX_RANK_GAP: string;
+  readonly VITE_LADDER_ACCEPT_HOURS: string;
+  readonly VITE_MATCH_CONFIRM_HOURS: string;
+  readonly VITE_LIVE_POLL_SECONDS: string;
 }
 
 interface ImportMeta {
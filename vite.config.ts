@@ -1,7 +1,30 @@
-import { defineConfig, loadEnv } from 'vite';
+/// <reference types="vitest/config" />
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import vue from '@vitejs/plugin-vue';
 import { readFileSync } from 'node:fs';
 
+// Emits manifest.webmanifest from the same env values appConfig reads. The colours mirror
+// appConfig.themeColor / backgroundColor.
+const webManifest = (manifest: Record<string, unknown>): Plugin => {
+  const source = JSON.stringify(manifest, null, 2);
+  return {
+    name: 'ttt-web-manifest',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        if (req.url?.endsWith('/manifest.webmanifest')) {
+          res.setHeader('Content-Type', 'application/manifest+json');
+          res.end(source);
+          return;
+        }
+        next();
+      });
+    },
+    generateBundle() {
+      this.emitFile({ type: 'asset', fileName: 'manifest.webmanifest', source });
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
   const readEnv = (key: string, fallback: string) =>
@@ -22,9 +45,29 @@ export default defineConfig(({ mode }) => {
 
   return {
     base: basePath,
-    plugins: [vue()],
+    plugins: [
+      vue(),
+      webManifest({
+        name: readEnv('VITE_APP_NAME', 'Table Tennis Tracker'),
+        short_name: readEnv('VITE_APP_SHORT_NAME', 'TT Tracker'),
+        description: 'A lightweight, mobile-first web app for tracking office table tennis matches.',
+        start_url: './',
+        scope: './',
+        display: 'standalone',
+        theme_color: '#1f5f45',
+        background_color: '#eef4ec',
+        icons: [
+          { src: 'icons/table-tennis-192.svg', sizes: '192x192', type: 'image/svg+xml' },
+          { src: 'icons/table-tennis-512.svg', sizes: '512x512', type: 'image/svg+xml' }
+        ]
+      })
+    ],
     define: {
       __APP_VERSION__: JSON.stringify(appVersion)
+    },
+    test: {
+      environment: 'node',
+      include: ['src/**/*.test.ts']
     }
   };
 });